@@ -17,4 +17,4 @@ if (!fs.existsSync(hintFile)) {
   fs.writeFileSync(hintFile, "shown");
 }
 
-import("../dist/index.js");
+import("../dist/cli.js");
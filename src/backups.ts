@@ -0,0 +1,105 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { join, relative, resolve, sep } from "path";
+
+/**
+ * Where previous versions of env files are kept, relative to the project
+ */
+export const BACKUP_DIR = ".db-setup/backups";
+
+/**
+ * Versions kept per env file unless --keep-backups says otherwise
+ */
+export const DEFAULT_KEEP_BACKUPS = 10;
+
+/**
+ * A previous version of an env file
+ */
+export interface EnvBackup {
+  /** File name in the backup directory, e.g. "2026-10-19T09-30-00.000Z" */
+  id: string;
+  path: string;
+  createdAt: Date;
+}
+
+const BACKUP_ID = /^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2}\.\d{3}Z)(-\d+)?$/;
+
+/**
+ * Backup directory of one env file: its path relative to the project,
+ * with parent directories written as "_" for files outside it
+ */
+export const backupDirFor = (envPath: string, root = process.cwd()): string =>
+  join(
+    root,
+    BACKUP_DIR,
+    ...relative(root, resolve(root, envPath))
+      .split(sep)
+      .map((segment) => (segment === ".." ? "_" : segment))
+  );
+
+/**
+ * Backups of `envPath`, newest first
+ */
+export const listBackups = (
+  envPath: string,
+  root = process.cwd()
+): EnvBackup[] => {
+  const dir = backupDirFor(envPath, root);
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .flatMap((id) => {
+      const match = BACKUP_ID.exec(id);
+      if (!match) return [];
+      const [, hours, minutes, seconds] = match;
+      return [
+        {
+          id,
+          path: join(dir, id),
+          createdAt: new Date(`${hours}:${minutes}:${seconds}`),
+        },
+      ];
+    })
+    .sort((a, b) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+};
+
+/**
+ * Save `content` as the newest version of `envPath` and drop the oldest
+ * beyond `keep`. Returns the backup's path, or undefined when `keep` is 0.
+ */
+export const createBackup = (
+  envPath: string,
+  content: string,
+  keep = DEFAULT_KEEP_BACKUPS,
+  root = process.cwd()
+): string | undefined => {
+  if (keep <= 0) return undefined;
+
+  const dir = backupDirFor(envPath, root);
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  // Two writes within a millisecond get -1, -2, ...
+  const timestamp = new Date().toISOString().replace(/:/g, "-");
+  let id = timestamp;
+  for (let n = 1; existsSync(join(dir, id)); n++) {
+    id = `${timestamp}-${n}`;
+  }
+
+  const path = join(dir, id);
+  writeFileSync(path, content, { encoding: "utf-8", mode: 0o600 });
+
+  for (const backup of listBackups(envPath, root).slice(keep)) {
+    unlinkSync(backup.path);
+  }
+
+  return path;
+};
+
+export const readBackup = (backup: EnvBackup): string =>
+  readFileSync(backup.path, "utf-8");
@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+
+import { setupDatabase } from "./index";
+import { initializeEnvFile } from "./env";
+import { maskConnectionStrings } from "./utils/connection-string";
+import { loadConfig, mergeOptions } from "./config";
+import { HELP_TEXT, parseCliArgs } from "./utils/cli-args";
+import { formatCommand } from "./commands/format";
+import { restoreCommand } from "./commands/restore";
+import { envCommand } from "./commands/env";
+import { setAssumeYes } from "./utils/prompts";
+import { setDryRun } from "./utils/exec";
+import {
+  enableJsonMode,
+  enableRedaction,
+  isJsonMode,
+  printJsonResult,
+  setShowSecrets,
+} from "./utils/output";
+import {
+  EXIT_CODES,
+  SetupError,
+  UserCancelledError,
+  toSetupError,
+} from "./errors";
+import chalk from "chalk";
+
+async function main() {
+  // Checked before parsing so that flag errors are reported as JSON too
+  if (process.argv.includes("--json")) {
+    enableJsonMode();
+  }
+
+  // Passwords and tokens print as *** unless --show-secrets
+  enableRedaction();
+
+  try {
+    const args = parseCliArgs(process.argv.slice(2));
+
+    if (args.help) {
+      console.log(HELP_TEXT);
+      return;
+    }
+
+    setAssumeYes(args.yes);
+    setDryRun(args.dryRun);
+    setShowSecrets(args.showSecrets);
+
+    console.log(chalk.bold.cyan("\n🗄️  Database Setup CLI\n"));
+    console.log(chalk.gray("Configure your PostgreSQL database with ease!\n"));
+
+    if (args.dryRun) {
+      console.log(
+        chalk.yellow("Dry run: nothing will be created or written.\n")
+      );
+    }
+
+    // Committed project config and per-user overrides; flags win over both
+    const config = loadConfig(args.configPath);
+    for (const file of config.files) {
+      console.log(chalk.gray(`Using config: ${file}`));
+    }
+    const options = mergeOptions(config.options, args.options);
+
+    // Initialize .env from .env.example if it exists
+    initializeEnvFile();
+
+    // Handle database setup, with plugins from node_modules and the config
+    const result = await setupDatabase({
+      ...options,
+      yes: args.yes,
+      dryRun: args.dryRun,
+      showSecrets: args.showSecrets,
+      plugins: config.plugins,
+    });
+
+    if (isJsonMode()) {
+      printJsonResult({
+        status: result ? "success" : "skipped",
+        provider: result?.providerId ?? null,
+        resource: result?.database.resource ?? {},
+        region: result?.database.region ?? null,
+        envFiles: result?.envFiles ?? [],
+        maskedUrl: result ? maskConnectionStrings(result.databaseUrl) : null,
+        connection: result?.connection ?? null,
+        environments: result?.environments?.map((environment) => ({
+          name: environment.name,
+          resource: environment.database.resource,
+          envPath: environment.envFiles[0].envPath,
+          maskedUrl: maskConnectionStrings(environment.databaseUrl),
+        })),
+      });
+    } else if (result && args.dryRun) {
+      console.log(
+        chalk.yellow(
+          "\n🔍 Dry run complete. Re-run without --dry-run to apply.\n"
+        )
+      );
+    } else if (result) {
+      console.log(chalk.green("\n🎉 Setup completed successfully!\n"));
+      console.log(chalk.cyan("Next steps:"));
+      console.log(chalk.gray("  1. ✓ Database connection configured"));
+      console.log(chalk.gray("  2. → Review your .env file"));
+      console.log(chalk.gray("  3. → Run database migrations (if applicable)"));
+      console.log(chalk.gray("  4. → Start your application"));
+      console.log(chalk.gray("  5. → Start building! 🚀\n"));
+    } else {
+      console.log(
+        chalk.yellow("\n⏭️  Setup skipped. You can run this again anytime.\n")
+      );
+    }
+  } catch (caught) {
+    const error = toSetupError(caught);
+    const exitCode =
+      error instanceof SetupError ? error.exitCode : EXIT_CODES.GENERAL;
+
+    if (isJsonMode()) {
+      printJsonResult({
+        status: "error",
+        provider: null,
+        resource: {},
+        region: null,
+        envFiles: [],
+        maskedUrl: null,
+        connection: null,
+        error: {
+          name: error instanceof Error ? error.name : "Error",
+          code: error instanceof SetupError ? error.code : undefined,
+          message: error instanceof Error ? error.message : String(error),
+          hint: error instanceof SetupError ? error.hint : undefined,
+        },
+      });
+      process.exit(exitCode);
+    }
+
+    if (error instanceof UserCancelledError) {
+      console.log(chalk.yellow(`\n⚠️  ${error.message}`));
+      if (error.hint) console.log(chalk.gray(error.hint));
+      process.exit(exitCode);
+    }
+
+    if (error instanceof Error) {
+      console.error(chalk.red("\n❌ Setup failed:"), error.message);
+    } else {
+      console.error(chalk.red("\n❌ Setup failed:"), error);
+    }
+    console.log(
+      chalk.gray(
+        error instanceof SetupError && error.hint
+          ? `\n${error.hint}\n`
+          : "\nTip: Run the command again or check the error message above.\n"
+      )
+    );
+    process.exit(exitCode);
+  }
+}
+
+/**
+ * Subcommands; anything else runs the setup flow
+ */
+const COMMANDS: Record<string, (argv: string[]) => void | Promise<void>> = {
+  format: formatCommand,
+  restore: restoreCommand,
+  env: envCommand,
+};
+
+/**
+ * Run a subcommand, printing failures without the setup banner or tips
+ */
+async function runSubcommand(
+  command: (argv: string[]) => void | Promise<void>,
+  argv: string[]
+) {
+  enableRedaction();
+
+  try {
+    await command(argv);
+  } catch (caught) {
+    const error = toSetupError(caught);
+    console.error(
+      chalk.red("❌"),
+      error instanceof Error ? error.message : String(error)
+    );
+    if (error instanceof SetupError && error.hint) {
+      console.error(chalk.gray(error.hint));
+    }
+    process.exit(
+      error instanceof SetupError ? error.exitCode : EXIT_CODES.GENERAL
+    );
+  }
+}
+
+// Handle graceful shutdown
+process.on("SIGINT", () => {
+  console.log(chalk.yellow("\n\n⚠️  Setup cancelled by user"));
+  process.exit(EXIT_CODES.USER_CANCELLED);
+});
+
+process.on("SIGTERM", () => {
+  console.log(chalk.yellow("\n\n⚠️  Setup cancelled"));
+  process.exit(0);
+});
+
+const subcommand = COMMANDS[process.argv[2]];
+if (subcommand) {
+  runSubcommand(subcommand, process.argv.slice(3));
+} else {
+  main();
+}
@@ -0,0 +1,186 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { basename, join, relative, resolve } from "path";
+import { parseArgs } from "util";
+import chalk from "chalk";
+import { createBackup, DEFAULT_KEEP_BACKUPS } from "../backups";
+import { loadConfig } from "../config";
+import {
+  decryptEnv,
+  DEFAULT_KEY_FILE,
+  encryptEnv,
+  ENV_KEY_VARIABLE,
+  loadEnvKey,
+  loaderSnippet,
+} from "../encrypted-env";
+import { ensureGitSafe } from "../git-safety";
+import { getCommandRunner } from "../utils/exec";
+import { maskEnvSecrets, setShowSecrets } from "../utils/output";
+
+export const ENV_HELP_TEXT = `Usage: db-setup env <decrypt|edit|loader> [env-file] [options]
+
+Work with an env file written by --encrypt (default .env.enc). The key comes
+from ${ENV_KEY_VARIABLE} or the key file.
+
+Commands:
+  decrypt              Print the decrypted file; secrets are masked on a terminal,
+                       so "db-setup env decrypt > .env" writes the real values
+  edit                 Open it decrypted in $VISUAL or $EDITOR and encrypt the result
+  loader               Print a Node.js module that loads it into process.env
+
+Options:
+  --output <path>      decrypt: write the decrypted file here instead of printing it
+  --key-file <path>    Key file to use if ${ENV_KEY_VARIABLE} is unset (default ${DEFAULT_KEY_FILE})
+  --config <path>      Config file to use instead of db-setup.config.json
+  --show-secrets       decrypt: print passwords and tokens on a terminal too
+  -h, --help           Show this help
+`;
+
+/**
+ * Decrypt to a private temp file, let the user edit it and encrypt the
+ * result back. A new file (and key, if needed) is created on save.
+ */
+const editEncryptedEnv = async (
+  envPath: string,
+  keyFile: string | undefined,
+  keepBackups: number
+): Promise<void> => {
+  const fileContent = existsSync(envPath) ? readFileSync(envPath, "utf-8") : "";
+  const envKey = loadEnvKey(keyFile, { create: fileContent === "" });
+  if (envKey.keyFile && envKey.created) {
+    console.log(
+      chalk.yellowBright(
+        `🔑 Generated a key in ${relative(process.cwd(), envKey.keyFile)}. Share it like a password and keep it out of git; CI can set ${ENV_KEY_VARIABLE} instead.`
+      )
+    );
+    await ensureGitSafe(envKey.keyFile, false, 0);
+  }
+  const content = fileContent && decryptEnv(fileContent, envKey.key, envPath);
+
+  const dir = mkdtempSync(join(tmpdir(), "db-setup-edit-"));
+  const tempPath = join(dir, basename(envPath).replace(/\.enc$/, ""));
+
+  try {
+    writeFileSync(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+
+    // $EDITOR may carry arguments, e.g. "code --wait"
+    const [editor, ...args] = (
+      process.env.VISUAL ||
+      process.env.EDITOR ||
+      "vi"
+    ).split(/\s+/);
+    const result = getCommandRunner().run(editor, [...args, tempPath], {
+      stdio: "inherit",
+    });
+    if (result.status !== 0) {
+      throw new Error(
+        `${editor} ${result.error ? `failed: ${result.error}` : `exited with ${result.status}`}; ${envPath} was not changed`
+      );
+    }
+
+    const edited = readFileSync(tempPath, "utf-8");
+    if (edited === content) {
+      console.log(chalk.gray(`No changes; ${envPath} was left as is`));
+      return;
+    }
+
+    const backupPath = fileContent
+      ? createBackup(envPath, fileContent, keepBackups)
+      : undefined;
+    if (backupPath) {
+      console.log(
+        chalk.gray(`💾 Backup created: ${relative(process.cwd(), backupPath)}`)
+      );
+    }
+
+    writeFileSync(envPath, encryptEnv(edited, envKey.key), "utf-8");
+    console.log(chalk.greenBright(`✅ Saved ${envPath} (encrypted)`));
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * `db-setup env decrypt|edit|loader [env-file]`
+ */
+export const envCommand = async (argv: string[]): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: "string" },
+      "key-file": { type: "string" },
+      config: { type: "string" },
+      "show-secrets": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [action, envPath = ".env.enc", ...extra] = positionals;
+
+  if (values.help || action === undefined) {
+    console.log(ENV_HELP_TEXT);
+    return;
+  }
+  if (extra.length > 0) {
+    throw new Error("Pass one env file at a time");
+  }
+
+  setShowSecrets(values["show-secrets"] ?? false);
+
+  const config = loadConfig(values.config).options;
+  const keyFile = values["key-file"] ?? config.keyFile;
+
+  switch (action) {
+    case "decrypt": {
+      if (!existsSync(envPath)) {
+        throw new Error(`${envPath} does not exist`);
+      }
+      const content = decryptEnv(
+        readFileSync(envPath, "utf-8"),
+        loadEnvKey(keyFile).key,
+        envPath
+      );
+
+      if (values.output === undefined) {
+        // Piped or redirected, the plain text is what was asked for
+        if (!process.stdout.isTTY) {
+          setShowSecrets(true);
+        }
+        process.stdout.write(maskEnvSecrets(content));
+        return;
+      }
+
+      // The plain copy must not be committed either
+      await ensureGitSafe(resolve(values.output), false, 0);
+      writeFileSync(values.output, content, { encoding: "utf-8", mode: 0o600 });
+      console.log(
+        chalk.greenBright(`✅ Decrypted ${envPath} to ${values.output}`)
+      );
+      return;
+    }
+
+    case "edit":
+      await editEncryptedEnv(
+        envPath,
+        keyFile,
+        config.keepBackups ?? DEFAULT_KEEP_BACKUPS
+      );
+      return;
+
+    case "loader":
+      process.stdout.write(loaderSnippet(envPath, keyFile));
+      return;
+
+    default:
+      throw new Error(
+        `Unknown env command "${action}". Expected one of: decrypt, edit, loader`
+      );
+  }
+};
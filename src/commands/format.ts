@@ -0,0 +1,61 @@
+import { parseArgs } from "util";
+import chalk from "chalk";
+import { DRIVER_FORMATS, parseFormatTargets } from "../formats";
+import { parseConnectionString } from "../utils/connection-string";
+import { setShowSecrets } from "../utils/output";
+
+export const FORMAT_HELP_TEXT = `Usage: db-setup format <connection-string> [options]
+
+Print a PostgreSQL URL or libpq key/value string in other driver formats.
+
+Options:
+  --show-secrets       Print the password instead of ***
+  --format <id>        Only print this format (${DRIVER_FORMATS.map((f) => f.id).join(", ")}); repeatable
+  -h, --help           Show this help
+`;
+
+/**
+ * `db-setup format <url>`: every format with its label, or just the
+ * requested ones, one per line, for use in scripts
+ */
+export const formatCommand = (argv: string[]): void => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", multiple: true },
+      "show-secrets": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(FORMAT_HELP_TEXT);
+    return;
+  }
+
+  setShowSecrets(values["show-secrets"] ?? false);
+
+  // An unquoted key/value string arrives as several arguments
+  const input = positionals.join(" ");
+  if (!input) {
+    throw new Error("Missing connection string. Usage: db-setup format <url>");
+  }
+
+  const connection = parseConnectionString(input);
+
+  if (values.format?.length) {
+    for (const { format } of parseFormatTargets(values.format)) {
+      console.log(format.render(connection));
+    }
+    return;
+  }
+
+  for (const format of DRIVER_FORMATS) {
+    console.log(
+      chalk.cyan(`\n${format.label}`) + chalk.gray(` (${format.id})`)
+    );
+    console.log(format.render(connection));
+  }
+  console.log();
+};
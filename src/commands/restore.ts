@@ -0,0 +1,188 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { relative, resolve } from "path";
+import { parseArgs } from "util";
+import chalk from "chalk";
+import {
+  BACKUP_DIR,
+  createBackup,
+  DEFAULT_KEEP_BACKUPS,
+  listBackups,
+  readBackup,
+  type EnvBackup,
+} from "../backups";
+import { loadConfig } from "../config";
+import {
+  decryptEnv,
+  DEFAULT_KEY_FILE,
+  ENV_KEY_VARIABLE,
+  isEncryptedEnv,
+  loadEnvKey,
+} from "../encrypted-env";
+import { UserCancelledError } from "../errors";
+import { ensureGitSafe } from "../git-safety";
+import { printDiff } from "../utils/diff";
+import { parseKeepBackups } from "../utils/cli-args";
+import { getEnvValue, parseEnv } from "../utils/dotenv";
+import { maskEnvSecrets, setShowSecrets } from "../utils/output";
+import { confirm, select, setAssumeYes } from "../utils/prompts";
+
+export const RESTORE_HELP_TEXT = `Usage: db-setup restore [env-file] [options]
+
+Put back a previous version of an env file (default .env) from ${BACKUP_DIR}.
+Shows what would change, with secrets masked, and asks before writing; the
+current file is backed up first.
+
+Options:
+  --list               Print the saved versions and exit
+  --backup <id>        Restore this version instead of choosing from the list
+  --keep-backups <n>   Previous versions kept per env file (default ${DEFAULT_KEEP_BACKUPS})
+  --config <path>      Config file to use instead of db-setup.config.json
+  --key-file <path>    Key for encrypted env files if DB_SETUP_ENV_KEY is unset (default .env.key)
+  --show-secrets       Show passwords and tokens in the diff instead of ***
+  --force              Restore even into an env file that git tracks
+  -y, --yes            Restore the newest version without asking
+  -h, --help           Show this help
+`;
+
+/**
+ * Keys a backup sets differently from the current file
+ */
+const changedKeys = (current: string, backup: string): string[] => {
+  const before = parseEnv(current);
+  const after = parseEnv(backup);
+  const keys = new Set(
+    [...before.nodes, ...after.nodes].flatMap((node) =>
+      node.type === "entry" ? [node.key] : []
+    )
+  );
+
+  return [...keys].filter(
+    (key) => getEnvValue(before, key) !== getEnvValue(after, key)
+  );
+};
+
+const describeBackup = (
+  backup: EnvBackup,
+  current: string,
+  readable: (content: string) => string
+): string => {
+  const changed = changedKeys(current, readable(readBackup(backup)));
+  const summary =
+    changed.length === 0
+      ? "same values as now"
+      : `differs in ${changed.join(", ")}`;
+
+  return `${backup.createdAt.toLocaleString()}  ${chalk.gray(`${backup.id}  ${summary}`)}`;
+};
+
+/**
+ * `db-setup restore [env-file]`: pick a previous version of the file,
+ * review the masked diff and write it back
+ */
+export const restoreCommand = async (argv: string[]): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      list: { type: "boolean", default: false },
+      backup: { type: "string" },
+      "keep-backups": { type: "string" },
+      config: { type: "string" },
+      "key-file": { type: "string" },
+      "show-secrets": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      yes: { type: "boolean", short: "y", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(RESTORE_HELP_TEXT);
+    return;
+  }
+  if (positionals.length > 1) {
+    throw new Error("Restore one env file at a time");
+  }
+
+  setAssumeYes(values.yes ?? false);
+  setShowSecrets(values["show-secrets"] ?? false);
+
+  const config = loadConfig(values.config).options;
+  const keepBackups =
+    values["keep-backups"] !== undefined
+      ? parseKeepBackups(values["keep-backups"])
+      : (config.keepBackups ?? DEFAULT_KEEP_BACKUPS);
+  const keyFile = values["key-file"] ?? config.keyFile;
+
+  const envPath = positionals[0] ?? ".env";
+  const backups = listBackups(envPath);
+  if (backups.length === 0) {
+    throw new Error(`No backups of ${envPath} in ${BACKUP_DIR}`);
+  }
+
+  // Encrypted files and their backups are compared decrypted
+  const readable = (content: string): string =>
+    isEncryptedEnv(content)
+      ? decryptEnv(content, loadEnvKey(keyFile).key, envPath)
+      : content;
+  const fileContent = existsSync(envPath) ? readFileSync(envPath, "utf-8") : "";
+  const current = readable(fileContent);
+
+  if (values.list) {
+    for (const backup of backups) {
+      console.log(describeBackup(backup, current, readable));
+    }
+    return;
+  }
+
+  const id = await select(
+    {
+      message: chalk.cyan(`Which version of ${envPath} should be restored?`),
+      default: backups[0].id,
+      choices: backups.map((backup) => ({
+        name: describeBackup(backup, current, readable),
+        value: backup.id,
+      })),
+    },
+    { value: values.backup, flag: "--backup" }
+  );
+  const backup = backups.find((candidate) => candidate.id === id)!;
+  const content = readBackup(backup);
+
+  if (readable(content) === current) {
+    console.log(chalk.gray(`${envPath} already matches ${id}`));
+    return;
+  }
+
+  console.log(chalk.cyan(`\nChanges to ${envPath}:`));
+  printDiff(maskEnvSecrets(current), maskEnvSecrets(readable(content)));
+
+  const shouldRestore = await confirm({
+    message: chalk.cyan(`Restore ${envPath} from ${id}?`),
+    default: true,
+  });
+  if (!shouldRestore) {
+    throw new UserCancelledError("Restore cancelled");
+  }
+
+  // Same check as a setup run: an encrypted file may be committed, its
+  // key may not
+  if (!isEncryptedEnv(content)) {
+    await ensureGitSafe(resolve(envPath), values.force, keepBackups);
+  } else if (!process.env[ENV_KEY_VARIABLE]) {
+    await ensureGitSafe(resolve(keyFile ?? DEFAULT_KEY_FILE), values.force, 0);
+  }
+
+  // Restoring is itself undoable
+  const backupPath = existsSync(envPath)
+    ? createBackup(envPath, fileContent, keepBackups)
+    : undefined;
+  if (backupPath) {
+    console.log(
+      chalk.gray(`\n💾 Backup created: ${relative(process.cwd(), backupPath)}`)
+    );
+  }
+
+  writeFileSync(envPath, content, "utf-8");
+  console.log(chalk.greenBright(`\n✅ Restored ${envPath} from ${id}`));
+};
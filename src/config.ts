@@ -0,0 +1,277 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { homedir } from "os";
+import type { LocalDockerOptions, SetupOptions } from "./options";
+
+/**
+ * Shape of db-setup.config.json / .dbsetuprc
+ */
+export interface DbSetupConfig {
+  provider?: string;
+  region?: string;
+  name?: string;
+  envPath?: string | string[];
+  workspaces?: string[];
+  environments?: string[];
+  variableName?: string;
+  docker?: LocalDockerOptions;
+  formats?: string[];
+  preset?: string;
+  endpoints?: string[];
+  pgVariables?: "none" | "also" | "only";
+  pgPrefix?: string;
+  keepBackups?: number;
+  encrypt?: boolean;
+  keyFile?: string;
+  verify?: boolean;
+  /** Provider plugin files or package names to load */
+  plugins?: string[];
+}
+
+type FieldType =
+  "string" | "number" | "boolean" | "string[]" | "string | string[]";
+type Schema = { [key: string]: FieldType | Schema };
+
+const CONFIG_SCHEMA: Schema = {
+  $schema: "string",
+  provider: "string",
+  region: "string",
+  name: "string",
+  envPath: "string | string[]",
+  workspaces: "string[]",
+  environments: "string[]",
+  variableName: "string",
+  docker: {
+    image: "string",
+    containerName: "string",
+    port: "number",
+    user: "string",
+    database: "string",
+  },
+  formats: "string[]",
+  preset: "string",
+  endpoints: "string[]",
+  pgVariables: "string",
+  pgPrefix: "string",
+  keepBackups: "number",
+  encrypt: "boolean",
+  keyFile: "string",
+  verify: "boolean",
+  plugins: "string[]",
+};
+
+export const PROJECT_CONFIG_FILES = ["db-setup.config.json", ".dbsetuprc"];
+export const USER_CONFIG_FILE = ".dbsetuprc";
+
+/**
+ * Levenshtein distance, used to suggest the intended key for a typo
+ */
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+
+  return row[b.length];
+};
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string");
+    case "string | string[]":
+      return typeof value === "string" || matchesType(value, "string[]");
+  }
+};
+
+/**
+ * Check a parsed config against the schema, collecting every problem
+ */
+const validateAgainstSchema = (
+  value: unknown,
+  schema: Schema,
+  path: string,
+  errors: string[]
+): void => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${path || "config"} must be an object`);
+    return;
+  }
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    const fieldSchema = schema[key];
+
+    if (fieldSchema === undefined) {
+      const suggestion = Object.keys(schema).find(
+        (known) => editDistance(known.toLowerCase(), key.toLowerCase()) <= 2
+      );
+      errors.push(
+        `Unknown key "${keyPath}"` +
+          (suggestion ? ` (did you mean "${suggestion}"?)` : "")
+      );
+      continue;
+    }
+
+    if (typeof fieldSchema === "object") {
+      validateAgainstSchema(fieldValue, fieldSchema, keyPath, errors);
+    } else if (!matchesType(fieldValue, fieldSchema)) {
+      errors.push(`"${keyPath}" must be a ${fieldSchema}`);
+    }
+  }
+};
+
+/**
+ * Read and validate a single config file
+ */
+export const readConfigFile = (filePath: string): DbSetupConfig => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse ${filePath}: ${reason}`);
+  }
+
+  const errors: string[] = [];
+  validateAgainstSchema(parsed, CONFIG_SCHEMA, "", errors);
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config in ${filePath}:\n` +
+        errors.map((e) => `  - ${e}`).join("\n")
+    );
+  }
+
+  const { $schema, ...config } = parsed as DbSetupConfig & {
+    $schema?: string;
+  };
+  return config;
+};
+
+/**
+ * Find the project config file in a directory, if any
+ */
+export const findProjectConfig = (cwd: string): string | null => {
+  for (const fileName of PROJECT_CONFIG_FILES) {
+    const filePath = join(cwd, fileName);
+    if (existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return null;
+};
+
+/**
+ * Convert a config file's contents into setup options
+ */
+const configToOptions = (config: DbSetupConfig): SetupOptions => ({
+  provider: config.provider,
+  region: config.region,
+  name: config.name,
+  envPaths:
+    config.envPath === undefined
+      ? undefined
+      : ([] as string[]).concat(config.envPath),
+  workspaces: config.workspaces,
+  environments: config.environments,
+  variableName: config.variableName,
+  docker: config.docker,
+  formats: config.formats,
+  preset: config.preset,
+  endpoints: config.endpoints,
+  pgVariables: config.pgVariables,
+  pgPrefix: config.pgPrefix,
+  keepBackups: config.keepBackups,
+  encrypt: config.encrypt,
+  keyFile: config.keyFile,
+  verify: config.verify,
+});
+
+/**
+ * Merge option layers; later layers win, undefined values never override
+ */
+export const mergeOptions = (...layers: SetupOptions[]): SetupOptions => {
+  const merged: SetupOptions = {};
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+
+      if (key === "docker") {
+        merged.docker = { ...merged.docker, ...value };
+      } else {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+
+  return merged;
+};
+
+export interface LoadedConfig {
+  options: SetupOptions;
+  plugins: string[];
+  files: string[];
+}
+
+/**
+ * Load the project config (or an explicit --config file) and the
+ * per-user override from the home directory
+ */
+export const loadConfig = (
+  explicitPath?: string,
+  cwd = process.cwd()
+): LoadedConfig => {
+  const files: string[] = [];
+  const layers: SetupOptions[] = [];
+  const plugins: string[] = [];
+
+  let projectPath: string | null;
+  if (explicitPath) {
+    projectPath = resolve(cwd, explicitPath);
+    if (!existsSync(projectPath)) {
+      throw new Error(`Config file not found: ${projectPath}`);
+    }
+  } else {
+    projectPath = findProjectConfig(cwd);
+  }
+
+  const userPath = join(homedir(), USER_CONFIG_FILE);
+  const candidates = [projectPath, userPath !== projectPath ? userPath : null];
+
+  for (const filePath of candidates) {
+    if (!filePath || !existsSync(filePath)) continue;
+
+    const config = readConfigFile(filePath);
+    layers.push(configToOptions(config));
+    // Plugin paths are relative to the file that lists them
+    plugins.push(
+      ...(config.plugins ?? []).map((plugin) =>
+        plugin.startsWith(".") ? resolve(dirname(filePath), plugin) : plugin
+      )
+    );
+    files.push(filePath);
+  }
+
+  return { options: mergeOptions(...layers), plugins, files };
+};
@@ -1,110 +1,322 @@
-import { select, input } from "@inquirer/prompts";
 import chalk from "chalk";
-import { setupNeon } from "./providers/neon";
-import { setupSupabase } from "./providers/supabase";
-import { setupRailway } from "./providers/railway-pg";
-import { setupLocalDocker } from "./providers/local-docker";
-import { setupEnvironment, validateConnectionString } from "./env";
-import { setupRender } from "./providers/render";
-import { setupVercel } from "./providers/vercel";
-import { setupAiven } from "./providers/aiven";
-
-export async function handleDatabaseSetup(): Promise<string> {
-  console.log(
-    chalk.magentaBright("\n================ Database Setup ================\n")
+import { setupEnvironment, writeEnvTargets, type EnvConfig } from "./env";
+import {
+  getProvider,
+  listProviders,
+  runProvider,
+  teardownAfterFailure,
+  type ProviderResult,
+  type ProvisionedDatabase,
+} from "./providers";
+import { isAssumingYes, select } from "./utils/prompts";
+import { UserCancelledError, toSetupError } from "./errors";
+import { normalizeConnectionString } from "./utils/connection-string";
+import { parseFormatTargets } from "./formats";
+import { parseEndpointTargets } from "./endpoints";
+import { PG_VARIABLES_MODES, pgVariableNames } from "./pg-variables";
+import {
+  parseEnvironmentTargets,
+  printEnvironmentSummary,
+  type EnvironmentTarget,
+} from "./environments";
+import { verifyDatabaseConnection, type ConnectionCheck } from "./verify";
+import type { SetupOptions } from "./options";
+import type {
+  ConnectionEndpoints,
+  ConnectionInfo,
+  DatabaseProvider,
+} from "./providers/types";
+
+/**
+ * The database of one environment and the env file it was written to
+ */
+export interface EnvironmentSetupResult {
+  name: string;
+  database: ProvisionedDatabase;
+  databaseUrl: string;
+  envFiles: EnvConfig[];
+  connection: ConnectionCheck | null;
+}
+
+export interface DatabaseSetupResult {
+  providerId: string;
+  database: ProvisionedDatabase;
+  databaseUrl: string;
+  envFiles: EnvConfig[];
+  /** null when verification was skipped (verify: false or --dry-run) */
+  connection: ConnectionCheck | null;
+  /**
+   * With `environments`, one entry each; the first is the database above
+   * and `envFiles` lists every environment's file
+   */
+  environments?: EnvironmentSetupResult[];
+}
+
+const noEnvironmentSupport = (provider: DatabaseProvider): Error =>
+  new Error(
+    `${provider.title} cannot create a separate database per environment. Providers that can: ${listProviders()
+      .filter((p) => p.provisionEnvironment)
+      .map((p) => p.id)
+      .join(", ")}`
+  );
+
+/**
+ * Another environment's database from the provider, with its URLs. It is
+ * added to `created` before its URLs are fetched.
+ */
+const provisionEnvironment = async (
+  provider: DatabaseProvider,
+  database: ProvisionedDatabase,
+  environment: string,
+  options: SetupOptions,
+  created: ProvisionedDatabase[]
+): Promise<{ database: ProvisionedDatabase; info: ConnectionInfo }> => {
+  if (!provider.provisionEnvironment) {
+    throw noEnvironmentSupport(provider);
+  }
+
+  const environmentDatabase = await provider.provisionEnvironment(
+    database,
+    environment,
+    options
   );
+  created.push(environmentDatabase);
+  const info = environmentDatabase.databaseUrl
+    ? {
+        databaseUrl: environmentDatabase.databaseUrl,
+        endpoints: environmentDatabase.endpoints,
+      }
+    : await provider.getConnectionInfo(environmentDatabase, options);
+
+  return { database: environmentDatabase, info };
+};
 
-  const provider = await select({
-    message: "Choose your PostgreSQL provider:",
-    default: "neon",
-    choices: [
-      { name: "Neon (Serverless PostgreSQL)", value: "neon" },
+/**
+ * Key/value input and unencoded passwords become canonical URLs
+ */
+const normalizeEndpoints = (
+  endpoints: ConnectionEndpoints = {}
+): ConnectionEndpoints =>
+  Object.fromEntries(
+    Object.entries(endpoints).map(([kind, url]) => [
+      kind,
+      normalizeConnectionString(url),
+    ])
+  );
+
+/**
+ * Verify a provisioned database and write it (and any other environments'
+ * databases) to the env files. Each environment database is added to
+ * `created` as soon as it exists, so a later failure can remove it.
+ */
+const completeSetup = async (
+  provisioned: ProviderResult,
+  environments: EnvironmentTarget[],
+  options: SetupOptions,
+  created: ProvisionedDatabase[]
+): Promise<DatabaseSetupResult> => {
+  const { provider, database } = provisioned;
+  // Key/value input and unencoded passwords become a canonical URL
+  const databaseUrl = normalizeConnectionString(provisioned.databaseUrl);
+  const endpoints = normalizeEndpoints(provisioned.endpoints);
+
+  // Make sure the URL works before it is saved anywhere
+  const connection =
+    options.verify === false
+      ? null
+      : await verifyDatabaseConnection(databaseUrl);
+
+  if (environments.length > 0) {
+    const [first, ...others] = environments;
+    const results: Array<
+      Omit<EnvironmentSetupResult, "envFiles"> & {
+        endpoints: ConnectionEndpoints;
+        envPath: string;
+      }
+    > = [
       {
-        name: "Supabase (Open Source Firebase Alternative)",
-        value: "supabase",
+        name: first.name,
+        database,
+        databaseUrl,
+        endpoints,
+        envPath: first.envPath,
+        connection,
       },
-      { name: "Railway (Platform as a Service)", value: "railway" },
-      { name: "Aiven (Managed Cloud Databases)", value: "aiven" },
-      { name: "Render (Cloud Hosting Platform)", value: "render" },
-      { name: "Vercel Postgres (Serverless PostgreSQL)", value: "vercel" },
-      { name: "Local PostgreSQL (Docker)", value: "local" },
-      { name: "I already have a DATABASE_URL", value: "manual" },
-      { name: "I'll configure later", value: "later" },
-    ],
-  });
-
-  let databaseUrl: string | null = null;
-
-  switch (provider) {
-    case "neon":
-      databaseUrl = await setupNeon();
-      break;
-
-    case "supabase":
-      databaseUrl = await setupSupabase();
-      break;
-
-    case "railway":
-      databaseUrl = await setupRailway();
-      break;
-
-    case "aiven":
-      databaseUrl = await setupAiven();
-      break;
-
-    case "render":
-      databaseUrl = await setupRender();
-      break;
-
-    case "vercel":
-      databaseUrl = await setupVercel();
-      break;
-
-    case "local":
-      databaseUrl = await setupLocalDocker();
-      break;
-
-    case "manual":
-      databaseUrl = await input({
-        message: chalk.cyan("Enter your PostgreSQL connection string:"),
-        validate: (inputValue: string) => {
-          if (!inputValue || inputValue.trim().length === 0) {
-            return "Connection string cannot be empty";
-          }
-
-          if (!validateConnectionString(inputValue)) {
-            return "Invalid PostgreSQL connection string format. Expected: postgresql://...";
-          }
-
-          return true;
-        },
-      });
-      break;
+    ];
 
-    case "later":
-      console.log(chalk.gray("\n⏭️  Skipping database setup."));
-      console.log(chalk.gray("You can configure your database later by:"));
+    // The others get their own branch, database or schema
+    for (const environment of others) {
       console.log(
-        chalk.gray("  1. Creating a database with your preferred provider")
+        chalk.blueBright(
+          `\n🌱 Database for the ${environment.name} environment`
+        )
       );
-      console.log(
-        chalk.gray("  2. Adding the connection string to your .env file")
-      );
-      console.log(chalk.gray("  3. Running your database migrations\n"));
-      return "";
+      const { database: environmentDatabase, info } =
+        await provisionEnvironment(
+          provider,
+          database,
+          environment.name,
+          options,
+          created
+        );
+      const environmentUrl = normalizeConnectionString(info.databaseUrl);
 
-    default:
-      console.log(chalk.red(`\n❌ Unknown provider: ${provider}`));
-      process.exit(1);
-  }
+      results.push({
+        name: environment.name,
+        database: environmentDatabase,
+        databaseUrl: environmentUrl,
+        endpoints: normalizeEndpoints(info.endpoints),
+        envPath: environment.envPath,
+        connection:
+          options.verify === false
+            ? null
+            : await verifyDatabaseConnection(environmentUrl),
+      });
+    }
 
-  if (!databaseUrl) {
-    console.error(chalk.red("\n❌ Failed to obtain database URL"));
-    process.exit(1);
+    // Same variables in every file, each with its environment's URL
+    const envFiles = await writeEnvTargets(results, options);
+    printEnvironmentSummary(
+      results.map((result, i) => ({
+        name: result.name,
+        databaseUrl: result.databaseUrl,
+        envPath: envFiles[i].envPath,
+      }))
+    );
+
+    return {
+      providerId: provider.id,
+      database,
+      databaseUrl,
+      envFiles,
+      connection,
+      environments: results.map((result, i) => ({
+        name: result.name,
+        database: result.database,
+        databaseUrl: result.databaseUrl,
+        envFiles: [envFiles[i]],
+        connection: result.connection,
+      })),
+    };
   }
 
   // Setup environment with custom path and variable name
-  await setupEnvironment(databaseUrl);
+  const envFiles = await setupEnvironment(databaseUrl, options, endpoints);
+
+  return {
+    providerId: provider.id,
+    database,
+    databaseUrl,
+    envFiles,
+    connection,
+  };
+};
 
-  return databaseUrl;
+/**
+ * Pick a provider, provision the database and write it to .env.
+ * Resolves to null when the user chooses to configure it later.
+ */
+export async function handleDatabaseSetup(
+  options: SetupOptions = {}
+): Promise<DatabaseSetupResult | null> {
+  console.log(
+    chalk.magentaBright("\n================ Database Setup ================\n")
+  );
+
+  // Reject a bad --format, --preset, --endpoint, --pg-prefix or
+  // --keep-backups before anything is provisioned
+  parseFormatTargets(options.formats ?? []);
+  parseEndpointTargets(options.preset, options.endpoints ?? []);
+  pgVariableNames(options.pgPrefix);
+  if (
+    options.pgVariables !== undefined &&
+    !PG_VARIABLES_MODES.includes(options.pgVariables)
+  ) {
+    throw new Error(
+      `Invalid PG variables mode "${options.pgVariables}". Expected one of: ${PG_VARIABLES_MODES.join(", ")}`
+    );
+  }
+  if (
+    options.keepBackups !== undefined &&
+    !(Number.isInteger(options.keepBackups) && options.keepBackups >= 0)
+  ) {
+    throw new Error(
+      `Invalid keepBackups ${options.keepBackups}: expected a whole number (0 keeps none)`
+    );
+  }
+  const environments = parseEnvironmentTargets(options.environments ?? []);
+  if (environments.length > 0 && options.envPaths?.length) {
+    throw new Error(
+      "--environment picks its own env files; use name=path instead of --env-path"
+    );
+  }
+
+  // The default would create a cloud project nobody picked
+  if (options.provider === undefined && isAssumingYes()) {
+    throw new Error(
+      "--yes needs --provider: name the provider to set up (e.g. --provider local)"
+    );
+  }
+
+  const providerId = await select(
+    {
+      message: "Choose your PostgreSQL provider:",
+      default: "neon",
+      choices: [
+        ...listProviders().map((p) => ({ name: p.displayName, value: p.id })),
+        { name: "I'll configure later", value: "later" },
+      ],
+    },
+    { value: options.provider, flag: "--provider" }
+  );
+
+  if (providerId === "later") {
+    console.log(chalk.gray("\n⏭️  Skipping database setup."));
+    console.log(chalk.gray("You can configure your database later by:"));
+    console.log(
+      chalk.gray("  1. Creating a database with your preferred provider")
+    );
+    console.log(
+      chalk.gray("  2. Adding the connection string to your .env file")
+    );
+    console.log(chalk.gray("  3. Running your database migrations\n"));
+    return null;
+  }
+
+  const provider = getProvider(providerId);
+
+  if (!provider) {
+    throw new Error(`Unknown provider: ${providerId}`);
+  }
+
+  if (environments.length > 1 && !provider.provisionEnvironment) {
+    throw noEnvironmentSupport(provider);
+  }
+
+  const provisioned = await runProvider(provider, options);
+  const environmentDatabases: ProvisionedDatabase[] = [];
+
+  try {
+    return await completeSetup(
+      provisioned,
+      environments,
+      options,
+      environmentDatabases
+    );
+  } catch (error) {
+    // Declining a step (e.g. overwriting the env file) keeps the database.
+    // Environment databases go first, newest first, then the one they
+    // were made from.
+    if (
+      provisioned.created &&
+      !(toSetupError(error) instanceof UserCancelledError)
+    ) {
+      await teardownAfterFailure(
+        provider,
+        [...environmentDatabases].reverse().concat(provisioned.database),
+        error
+      );
+    }
+    throw error;
+  }
 }
@@ -0,0 +1,220 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+
+/**
+ * A default picked from the project's files, and why
+ */
+export interface DetectedDefault {
+  value: string;
+  reason: string;
+}
+
+export interface ProjectDefaults {
+  envPath?: DetectedDefault;
+  variableName?: DetectedDefault;
+}
+
+const CONFIG_EXTENSIONS = ["ts", "mts", "cts", "js", "mjs", "cjs"];
+
+/**
+ * First existing file among `names` ("next.config" is tried with every
+ * config extension, "nest-cli.json" as is), relative to `cwd`
+ */
+const findFile = (cwd: string, names: string[]): string | undefined =>
+  names
+    .flatMap((name) =>
+      /\.json$/.test(name)
+        ? [name]
+        : CONFIG_EXTENSIONS.map((extension) => `${name}.${extension}`)
+    )
+    .find((name) => existsSync(join(cwd, name)));
+
+const readText = (path: string): string | undefined => {
+  try {
+    return readFileSync(path, "utf-8");
+  } catch {
+    return undefined;
+  }
+};
+
+interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  prisma?: { schema?: string };
+}
+
+const readPackageJson = (cwd: string): PackageJson => {
+  try {
+    return JSON.parse(readText(join(cwd, "package.json")) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Frameworks by the env file they load, most specific first. Next.js
+ * reads .env.local ahead of .env and create-next-app ignores it in git;
+ * the others load .env.
+ */
+const FRAMEWORKS: Array<{
+  name: string;
+  configs: string[];
+  packages: string[];
+  envPath: string;
+}> = [
+  {
+    name: "Next.js",
+    configs: ["next.config"],
+    packages: ["next"],
+    envPath: ".env.local",
+  },
+  {
+    name: "Nuxt",
+    configs: ["nuxt.config"],
+    packages: ["nuxt"],
+    envPath: ".env",
+  },
+  {
+    name: "SvelteKit",
+    configs: ["svelte.config"],
+    packages: ["@sveltejs/kit"],
+    envPath: ".env",
+  },
+  {
+    name: "Astro",
+    configs: ["astro.config"],
+    packages: ["astro"],
+    envPath: ".env",
+  },
+  {
+    name: "Remix",
+    configs: ["remix.config"],
+    packages: ["@remix-run/node", "@remix-run/dev"],
+    envPath: ".env",
+  },
+  {
+    name: "NestJS",
+    configs: ["nest-cli.json"],
+    packages: ["@nestjs/core"],
+    envPath: ".env",
+  },
+];
+
+/**
+ * .prisma files in a directory, relative to `cwd`
+ */
+const prismaFilesIn = (cwd: string, dir: string): string[] =>
+  readdirSync(join(cwd, dir))
+    .filter((name) => name.endsWith(".prisma"))
+    .map((name) => join(dir, name));
+
+/**
+ * Prisma schema files: package.json "prisma.schema" (a file or a folder),
+ * then the default locations, including the multi-file prisma/schema/
+ */
+const findPrismaSchemas = (cwd: string, pkg: PackageJson): string[] => {
+  const candidates = [
+    pkg.prisma?.schema,
+    "prisma/schema.prisma",
+    "schema.prisma",
+    "prisma/schema",
+  ].filter((path): path is string => Boolean(path));
+
+  for (const candidate of candidates) {
+    const path = join(cwd, candidate);
+    if (!existsSync(path)) continue;
+
+    return statSync(path).isDirectory()
+      ? prismaFilesIn(cwd, candidate)
+      : [candidate];
+  }
+
+  return [];
+};
+
+/**
+ * The variable in `url = env("...")` inside the datasource block
+ */
+const prismaUrlVariable = (schema: string): string | undefined => {
+  const datasource = /datasource\s+\w+\s*\{([^}]*)\}/.exec(schema)?.[1];
+  return datasource
+    ? /^\s*url\s*=\s*env\(\s*"([^"]+)"\s*\)/m.exec(datasource)?.[1]
+    : undefined;
+};
+
+/**
+ * The first process.env variable drizzle.config reads, and the env file
+ * it loads with dotenv: config({ path }) or "dotenv/config" for .env
+ */
+const drizzleSettings = (
+  config: string
+): { variableName?: string; envPath?: string } => ({
+  variableName:
+    /process\.env(?:\.([A-Z_][A-Z0-9_]*)|\[\s*["']([A-Z_][A-Z0-9_]*)["']\s*\])/i
+      .exec(config)
+      ?.slice(1)
+      .find(Boolean),
+  envPath:
+    /config\(\s*\{[^}]*path:\s*["'](?:\.\/)?([^"']+)["']/.exec(config)?.[1] ??
+    (/["']dotenv\/config["']/.test(config) ? ".env" : undefined),
+});
+
+/**
+ * Look at the project in `cwd` for the env file its framework or ORM
+ * loads and the variable name its database config references
+ */
+export const detectProjectDefaults = (cwd = process.cwd()): ProjectDefaults => {
+  const pkg = readPackageJson(cwd);
+  const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+  const defaults: ProjectDefaults = {};
+
+  const framework = FRAMEWORKS.find(
+    (entry) =>
+      findFile(cwd, entry.configs) ||
+      entry.packages.some((name) => name in dependencies)
+  );
+  if (framework) {
+    defaults.envPath = {
+      value: framework.envPath,
+      reason: `${framework.name} loads ${framework.envPath}`,
+    };
+  }
+
+  const drizzleConfig = findFile(cwd, ["drizzle.config"]);
+  if (drizzleConfig) {
+    const drizzle = drizzleSettings(readText(join(cwd, drizzleConfig)) ?? "");
+    if (drizzle.variableName) {
+      defaults.variableName = {
+        value: drizzle.variableName,
+        reason: `${drizzleConfig} reads process.env.${drizzle.variableName}`,
+      };
+    }
+    if (drizzle.envPath) {
+      defaults.envPath = {
+        value: drizzle.envPath,
+        reason: `${drizzleConfig} loads ${drizzle.envPath}`,
+      };
+    }
+  }
+
+  // Prisma wins over the framework: its CLI only reads .env, so
+  // migrations would not see a URL in .env.local
+  for (const schemaPath of findPrismaSchemas(cwd, pkg)) {
+    const variableName = prismaUrlVariable(
+      readText(join(cwd, schemaPath)) ?? ""
+    );
+    if (variableName) {
+      defaults.variableName = {
+        value: variableName,
+        reason: `${schemaPath} reads env("${variableName}")`,
+      };
+      defaults.envPath = {
+        value: ".env",
+        reason: "the Prisma CLI only loads .env",
+      };
+      break;
+    }
+  }
+
+  return defaults;
+};
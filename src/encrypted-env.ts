@@ -0,0 +1,179 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+
+/**
+ * Environment variable holding the base64 key, e.g. in CI
+ */
+export const ENV_KEY_VARIABLE = "DB_SETUP_ENV_KEY";
+
+/**
+ * Key file used when the variable is not set, relative to the project
+ */
+export const DEFAULT_KEY_FILE = ".env.key";
+
+const ALGORITHM = "aes-256-gcm";
+const PREFIX = "db-setup:v1:aes-256-gcm:";
+
+/**
+ * Where an encrypted env file's key came from
+ */
+export interface EnvKey {
+  key: Buffer;
+  /** Absolute path of the key file; undefined for ENV_KEY_VARIABLE */
+  keyFile?: string;
+  /** The key file was generated by this call */
+  created?: boolean;
+}
+
+/**
+ * `.env` → `.env.enc`; a path already ending in .enc is kept
+ */
+export const encryptedEnvPath = (envPath: string): string =>
+  envPath.endsWith(".enc") ? envPath : `${envPath}.enc`;
+
+export const isEncryptedEnv = (content: string): boolean =>
+  content.split(/\r?\n/).some((line) => line.startsWith(PREFIX));
+
+const decodeKey = (value: string, source: string): Buffer => {
+  const key = Buffer.from(value.trim(), "base64");
+  if (key.length !== 32) {
+    throw new Error(
+      `The key in ${source} is not a base64-encoded 256-bit key (got ${key.length} bytes)`
+    );
+  }
+  return key;
+};
+
+/**
+ * The key from ENV_KEY_VARIABLE, else from `keyFile`. With `create`, a
+ * missing key file is generated (readable by the owner only).
+ */
+export const loadEnvKey = (
+  keyFile = DEFAULT_KEY_FILE,
+  { create = false } = {}
+): EnvKey => {
+  const fromEnv = process.env[ENV_KEY_VARIABLE];
+  if (fromEnv) {
+    return { key: decodeKey(fromEnv, ENV_KEY_VARIABLE) };
+  }
+
+  const path = resolve(process.cwd(), keyFile);
+  if (existsSync(path)) {
+    return { key: decodeKey(readFileSync(path, "utf-8"), path), keyFile: path };
+  }
+
+  if (!create) {
+    throw new Error(
+      `No key found: set ${ENV_KEY_VARIABLE} or create ${keyFile} (or pass --key-file)`
+    );
+  }
+
+  const key = randomBytes(32);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${key.toString("base64")}\n`, { mode: 0o600 });
+  return { key, keyFile: path, created: true };
+};
+
+/**
+ * Encrypt an env file's text. The result is one line of base64 fields
+ * (IV, auth tag, ciphertext) under a comment saying how to read it.
+ */
+export const encryptEnv = (content: string, key: Buffer): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(content, "utf-8"), cipher.final()]);
+
+  return (
+    `# Encrypted by db-setup. Read it with "db-setup env decrypt" or "db-setup env edit".\n` +
+    `${PREFIX}${iv.toString("base64")}:${cipher.getAuthTag().toString("base64")}:${data.toString("base64")}\n`
+  );
+};
+
+/**
+ * Decrypt what encryptEnv() wrote; `path` is only used in errors
+ */
+export const decryptEnv = (
+  content: string,
+  key: Buffer,
+  path = "the env file"
+): string => {
+  const line = content.split(/\r?\n/).find((entry) => entry.startsWith(PREFIX));
+  const [iv, tag, data] = line?.slice(PREFIX.length).split(":") ?? [];
+  if (!iv || !tag || data === undefined) {
+    throw new Error(`${path} is not an encrypted env file`);
+  }
+
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      key,
+      Buffer.from(iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new Error(
+      `Cannot decrypt ${path}: the key does not match or the file was modified`
+    );
+  }
+};
+
+/**
+ * An env file's text, decrypted when it is encrypted ("" when missing)
+ */
+export const readEnvFile = (path: string, keyFile?: string): string => {
+  if (!existsSync(path)) return "";
+
+  const content = readFileSync(path, "utf-8");
+  return isEncryptedEnv(content)
+    ? decryptEnv(content, loadEnvKey(keyFile).key, path)
+    : content;
+};
+
+/**
+ * Code for applications to load an encrypted env file at runtime, with
+ * nothing but Node's crypto (and util.parseEnv, Node 20.12+)
+ */
+export const loaderSnippet = (
+  envPath = ".env.enc",
+  keyFile = DEFAULT_KEY_FILE
+): string => `// load-encrypted-env.mjs: call loadEncryptedEnv() before anything
+// reads process.env. The key comes from ${ENV_KEY_VARIABLE} or the key file.
+import { createDecipheriv } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { parseEnv } from "node:util";
+
+export const loadEncryptedEnv = (
+  path = ${JSON.stringify(envPath)},
+  keyFile = ${JSON.stringify(keyFile)}
+) => {
+  const key = Buffer.from(
+    process.env.${ENV_KEY_VARIABLE} ?? readFileSync(keyFile, "utf-8"),
+    "base64"
+  );
+  const line = readFileSync(path, "utf-8")
+    .split(/\\r?\\n/)
+    .find((entry) => entry.startsWith(${JSON.stringify(PREFIX)}));
+  const [iv, tag, data] = line.slice(${PREFIX.length}).split(":");
+
+  const decipher = createDecipheriv(
+    ${JSON.stringify(ALGORITHM)},
+    key,
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  const text = Buffer.concat([
+    decipher.update(Buffer.from(data, "base64")),
+    decipher.final(),
+  ]).toString("utf-8");
+
+  // Variables already set in the environment win, as with dotenv
+  for (const [name, value] of Object.entries(parseEnv(text))) {
+    process.env[name] ??= value;
+  }
+};
+`;
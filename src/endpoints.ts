@@ -0,0 +1,157 @@
+import {
+  formatConnectionString,
+  parseConnectionString,
+} from "./utils/connection-string";
+import {
+  ENDPOINT_KINDS,
+  type ConnectionEndpoints,
+  type EndpointKind,
+} from "./providers/types";
+
+/**
+ * One env variable and the endpoint written into it
+ */
+export interface EndpointTarget {
+  variableName: string;
+  endpoint: EndpointKind;
+  /** Written instead of `endpoint` when the provider has it */
+  preferred?: EndpointKind;
+  /** Query parameters added when the provider has this endpoint */
+  params?: Record<string, string>;
+}
+
+/**
+ * A ready-made set of variables for an ORM or driver
+ */
+export interface EndpointPreset {
+  id: string;
+  label: string;
+  targets: EndpointTarget[];
+}
+
+export const ENDPOINT_PRESETS: EndpointPreset[] = [
+  {
+    id: "prisma",
+    label: "Prisma (DATABASE_URL pooled + DIRECT_URL for migrations)",
+    targets: [
+      // Prisma must not use prepared statements through PgBouncer
+      {
+        variableName: "DATABASE_URL",
+        endpoint: "pooled",
+        preferred: "prisma",
+        params: { pgbouncer: "true" },
+      },
+      { variableName: "DIRECT_URL", endpoint: "direct" },
+    ],
+  },
+  {
+    id: "drizzle",
+    label:
+      "Drizzle (DATABASE_URL pooled + DATABASE_URL_UNPOOLED for drizzle-kit)",
+    targets: [
+      { variableName: "DATABASE_URL", endpoint: "pooled" },
+      { variableName: "DATABASE_URL_UNPOOLED", endpoint: "direct" },
+    ],
+  },
+  {
+    id: "pg",
+    label: "node-postgres (DATABASE_URL direct, pg.Pool does the pooling)",
+    targets: [{ variableName: "DATABASE_URL", endpoint: "direct" }],
+  },
+];
+
+export const getEndpointPreset = (id: string): EndpointPreset | undefined =>
+  ENDPOINT_PRESETS.find((preset) => preset.id === id);
+
+/**
+ * Targets from --preset and --endpoint / config entries
+ * ("DIRECT_URL=direct"); explicit entries replace a preset's variable of
+ * the same name
+ */
+export const parseEndpointTargets = (
+  preset: string | undefined,
+  specs: string[]
+): EndpointTarget[] => {
+  const targets: EndpointTarget[] = [];
+
+  if (preset !== undefined) {
+    const found = getEndpointPreset(preset);
+    if (!found) {
+      throw new Error(
+        `Unknown preset "${preset}". Expected one of: ${ENDPOINT_PRESETS.map(
+          (entry) => entry.id
+        ).join(", ")}`
+      );
+    }
+    targets.push(...found.targets);
+  }
+
+  for (const spec of specs) {
+    const [variableName, endpoint] = spec.split("=", 2).map((s) => s.trim());
+
+    if (!/^[A-Z_][A-Z0-9_]*$/i.test(variableName)) {
+      throw new Error(`Invalid variable name "${variableName}" in "${spec}"`);
+    }
+    if (!ENDPOINT_KINDS.includes(endpoint as EndpointKind)) {
+      throw new Error(
+        `Unknown endpoint "${endpoint ?? ""}" for ${variableName}. Expected one of: ${ENDPOINT_KINDS.join(", ")}`
+      );
+    }
+
+    const existing = targets.findIndex(
+      (target) => target.variableName === variableName
+    );
+    const target = { variableName, endpoint: endpoint as EndpointKind };
+    if (existing === -1) {
+      targets.push(target);
+    } else {
+      targets[existing] = target;
+    }
+  }
+
+  return targets;
+};
+
+export interface ResolvedEndpoint {
+  url: string;
+  /** The provider has no such endpoint, so the primary URL was used */
+  fallback: boolean;
+}
+
+/**
+ * URL for a target: the provider's preferred or regular endpoint of that
+ * kind plus the target's parameters, or the primary URL as-is when the
+ * provider has only one
+ */
+export const resolveEndpoint = (
+  target: EndpointTarget,
+  endpoints: ConnectionEndpoints,
+  primaryUrl: string
+): ResolvedEndpoint => {
+  const url =
+    (target.preferred && endpoints[target.preferred]) ||
+    endpoints[target.endpoint];
+
+  if (!url) {
+    return { url: primaryUrl, fallback: true };
+  }
+
+  if (!target.params) {
+    return { url, fallback: false };
+  }
+
+  const parsed = parseConnectionString(url);
+  return {
+    url: formatConnectionString({
+      ...parsed,
+      params: { ...parsed.params, ...target.params },
+    }),
+    fallback: false,
+  };
+};
+
+/**
+ * Whether a provider offered a real choice between endpoints
+ */
+export const hasSeveralEndpoints = (endpoints: ConnectionEndpoints): boolean =>
+  new Set(Object.values(endpoints)).size > 1;
@@ -1,11 +1,59 @@
 import { existsSync, readFileSync, writeFileSync, copyFileSync } from "fs";
-import { resolve, dirname } from "path";
-import { input, confirm, select } from "@inquirer/prompts";
+import { resolve, dirname, relative } from "path";
 import chalk from "chalk";
-
-interface EnvConfig {
+import { input, confirm, select, checkbox } from "./utils/prompts";
+import { isDryRun } from "./utils/exec";
+import { printDiff } from "./utils/diff";
+import { redact } from "./utils/output";
+import {
+  ConnectionStringSyntaxError,
+  normalizeConnectionString,
+  parseConnectionString,
+} from "./utils/connection-string";
+import {
+  appendEnvValues,
+  findDuplicateKeys,
+  hasEnvKey,
+  parseEnv,
+  serializeEnv,
+  updateEnvValue,
+} from "./utils/dotenv";
+import { parseFormatTargets } from "./formats";
+import {
+  pgVariableNames,
+  toPgVariables,
+  type PgVariablesMode,
+} from "./pg-variables";
+import {
+  ENDPOINT_PRESETS,
+  hasSeveralEndpoints,
+  parseEndpointTargets,
+  resolveEndpoint,
+} from "./endpoints";
+import { placeholderVariables, syncEnvExample } from "./env-example";
+import { ensureGitSafe } from "./git-safety";
+import { createBackup, DEFAULT_KEEP_BACKUPS } from "./backups";
+import {
+  decryptEnv,
+  DEFAULT_KEY_FILE,
+  encryptedEnvPath,
+  encryptEnv,
+  ENV_KEY_VARIABLE,
+  isEncryptedEnv,
+  loadEnvKey,
+  readEnvFile,
+} from "./encrypted-env";
+import { UserCancelledError } from "./errors";
+import { detectProjectDefaults, type DetectedDefault } from "./detect";
+import { discoverWorkspaces, workspaceEnvPath } from "./workspaces";
+import type { SetupOptions } from "./options";
+import type { ConnectionEndpoints } from "./providers/types";
+
+export interface EnvConfig {
   envPath: string;
   variableName: string;
+  /** Written encrypted (see encrypted-env.ts) */
+  encrypted?: boolean;
 }
 
 /**
@@ -13,6 +61,11 @@ interface EnvConfig {
  */
 export function initializeEnvFile(): void {
   if (existsSync(".env.example") && !existsSync(".env")) {
+    if (isDryRun()) {
+      console.log(chalk.cyan("[dry-run] Would create .env from .env.example"));
+      return;
+    }
+
     try {
       copyFileSync(".env.example", ".env");
       console.log(chalk.greenBright("✅ Created .env file from .env.example"));
@@ -23,118 +76,216 @@ export function initializeEnvFile(): void {
 }
 
 /**
- * Ask user for .env file location and variable name
+ * Validate a custom .env path (its directory must already exist)
+ */
+const validateEnvPath = (inputValue: string): string | true => {
+  if (!inputValue || inputValue.trim().length === 0) {
+    return "Path cannot be empty";
+  }
+
+  const resolvedPath = resolve(process.cwd(), inputValue);
+  const dir = dirname(resolvedPath);
+
+  if (!existsSync(dir)) {
+    return `Directory does not exist: ${dir}. Please create it first.`;
+  }
+
+  return true;
+};
+
+/**
+ * Validate a custom environment variable name
  */
-export async function getEnvConfig(): Promise<EnvConfig> {
+const validateVariableName = (inputValue: string): string | true => {
+  if (!inputValue || inputValue.trim().length === 0) {
+    return "Variable name cannot be empty";
+  }
+
+  if (!/^[A-Z_][A-Z0-9_]*$/i.test(inputValue)) {
+    return "Variable name must contain only letters, numbers, and underscores";
+  }
+
+  return true;
+};
+
+/**
+ * Mark the detected default in a choice list, adding it if missing, and
+ * say why it was picked
+ */
+const withDetected = <Choice extends { name: string; value: string }>(
+  choices: Choice[],
+  detected: DetectedDefault | undefined
+): Array<{ name: string; value: string }> => {
+  if (!detected) return choices;
+
+  console.log(
+    chalk.gray(`🔎 Defaulting to ${detected.value}: ${detected.reason}`)
+  );
+
+  return choices.some((choice) => choice.value === detected.value)
+    ? choices.map((choice) =>
+        choice.value === detected.value
+          ? { ...choice, name: `${choice.name} (detected)` }
+          : choice
+      )
+    : [
+        { name: `${detected.value} (detected)`, value: detected.value },
+        ...choices,
+      ];
+};
+
+/**
+ * Ask user for .env file location and variable name. With
+ * `variableNames` (from an endpoint preset) only the location is asked
+ * and the first name is the main variable.
+ */
+export async function getEnvConfig(
+  options: SetupOptions = {},
+  variableNames?: string[]
+): Promise<EnvConfig> {
   console.log(
     chalk.blueBright(
       "\n================ Environment Configuration ================\n"
     )
   );
 
-  // Ask for .env file path with common options
-  const envPathChoice = await select({
-    message: chalk.cyan("Select your .env file location:"),
-    choices: [
-      { name: ".env (Root directory)", value: ".env" },
-      { name: ".env.local (Local environment)", value: ".env.local" },
-      { name: ".env.development (Development)", value: ".env.development" },
-      { name: ".env.production (Production)", value: ".env.production" },
-      { name: "config/.env (Config directory)", value: "config/.env" },
-      {
-        name: "apps/backend/.env (Monorepo backend)",
-        value: "apps/backend/.env",
-      },
-      { name: "Custom path...", value: "custom" },
-    ],
-  });
+  // Defaults for what the project's framework and ORM actually read; for
+  // a preset path, the package that file belongs to
+  const presetEnvPath = options.envPaths?.[0];
+  const detected = detectProjectDefaults(
+    presetEnvPath !== undefined
+      ? dirname(resolve(process.cwd(), presetEnvPath))
+      : process.cwd()
+  );
+
+  // Ask for .env file path with common options (a preset counts as a custom path)
+  const envPathChoice =
+    presetEnvPath !== undefined
+      ? "custom"
+      : await select(
+          {
+            message: chalk.cyan("Select your .env file location:"),
+            default: detected.envPath?.value ?? ".env",
+            choices: withDetected(
+              [
+                { name: ".env (Root directory)", value: ".env" },
+                { name: ".env.local (Local environment)", value: ".env.local" },
+                {
+                  name: ".env.development (Development)",
+                  value: ".env.development",
+                },
+                {
+                  name: ".env.production (Production)",
+                  value: ".env.production",
+                },
+                {
+                  name: "config/.env (Config directory)",
+                  value: "config/.env",
+                },
+                { name: "Custom path...", value: "custom" },
+              ],
+              detected.envPath
+            ),
+          },
+          { flag: "--env-path" }
+        );
 
   let envPath: string;
 
   if (envPathChoice === "custom") {
-    envPath = await input({
-      message: chalk.cyan("Enter custom path to your .env file:"),
-      validate: (inputValue: string) => {
-        if (!inputValue || inputValue.trim().length === 0) {
-          return "Path cannot be empty";
-        }
-
-        const resolvedPath = resolve(process.cwd(), inputValue);
-        const dir = dirname(resolvedPath);
-
-        if (!existsSync(dir)) {
-          return `Directory does not exist: ${dir}. Please create it first.`;
-        }
-
-        return true;
+    envPath = await input(
+      {
+        message: chalk.cyan("Enter custom path to your .env file:"),
+        validate: validateEnvPath,
       },
-    });
+      { value: presetEnvPath, flag: "--env-path" }
+    );
   } else {
     envPath = envPathChoice;
   }
 
-  // Ask for variable name with common options
-  const variableNameChoice = await select({
-    message: chalk.cyan("Select the environment variable name:"),
-    choices: [
-      { name: "DATABASE_URL (Standard)", value: "DATABASE_URL" },
-      { name: "POSTGRES_URL (Alternative)", value: "POSTGRES_URL" },
-      { name: "DB_URL (Short form)", value: "DB_URL" },
-      {
-        name: "DB_CONNECTION_STRING (Descriptive)",
-        value: "DB_CONNECTION_STRING",
-      },
-      { name: "DIRECT_URL (Prisma direct)", value: "DIRECT_URL" },
-      { name: "DATABASE_CONNECTION (Verbose)", value: "DATABASE_CONNECTION" },
-      { name: "Custom variable name...", value: "custom" },
-    ],
-  });
+  // Ask for variable name with common options (a preset counts as a custom name)
+  const variableNameChoice =
+    variableNames !== undefined
+      ? variableNames[0]
+      : options.variableName !== undefined
+        ? "custom"
+        : await select(
+            {
+              message: chalk.cyan("Select the environment variable name:"),
+              default: detected.variableName?.value ?? "DATABASE_URL",
+              choices: withDetected(
+                [
+                  { name: "DATABASE_URL (Standard)", value: "DATABASE_URL" },
+                  { name: "POSTGRES_URL (Alternative)", value: "POSTGRES_URL" },
+                  { name: "DB_URL (Short form)", value: "DB_URL" },
+                  {
+                    name: "DB_CONNECTION_STRING (Descriptive)",
+                    value: "DB_CONNECTION_STRING",
+                  },
+                  { name: "DIRECT_URL (Prisma direct)", value: "DIRECT_URL" },
+                  {
+                    name: "DATABASE_CONNECTION (Verbose)",
+                    value: "DATABASE_CONNECTION",
+                  },
+                  { name: "Custom variable name...", value: "custom" },
+                ],
+                detected.variableName
+              ),
+            },
+            { flag: "--var" }
+          );
 
   let variableName: string;
 
   if (variableNameChoice === "custom") {
-    variableName = await input({
-      message: chalk.cyan("Enter custom variable name:"),
-      validate: (inputValue: string) => {
-        if (!inputValue || inputValue.trim().length === 0) {
-          return "Variable name cannot be empty";
-        }
-
-        if (!/^[A-Z_][A-Z0-9_]*$/i.test(inputValue)) {
-          return "Variable name must contain only letters, numbers, and underscores";
-        }
-
-        return true;
+    variableName = await input(
+      {
+        message: chalk.cyan("Enter custom variable name:"),
+        validate: validateVariableName,
       },
-    });
+      { value: options.variableName, flag: "--var" }
+    );
   } else {
     variableName = variableNameChoice;
   }
 
+  // --encrypt writes .env.enc next to where .env would go
+  if (options.encrypt) {
+    envPath = encryptedEnvPath(envPath);
+  }
   const resolvedPath = resolve(process.cwd(), envPath);
+  let encrypted = options.encrypt ?? false;
 
   // Check if variable already exists
   if (existsSync(resolvedPath)) {
-    const existingContent = readFileSync(resolvedPath, "utf-8");
-    const variableRegex = new RegExp(`^${variableName}=`, "m");
+    // An encrypted file stays encrypted
+    encrypted ||= isEncryptedEnv(readFileSync(resolvedPath, "utf-8"));
+    const existing = parseEnv(readEnvFile(resolvedPath, options.keyFile));
+    const existingNames = (variableNames ?? [variableName.trim()]).filter(
+      (name) => hasEnvKey(existing, name)
+    );
 
-    if (variableRegex.test(existingContent)) {
+    if (existingNames.length > 0) {
+      const names = existingNames.join(", ");
       console.log(
-        chalk.yellowBright(`\n⚠️  ${variableName} already exists in ${envPath}`)
+        chalk.yellowBright(
+          `\n⚠️  ${names} already ${existingNames.length > 1 ? "exist" : "exists"} in ${envPath}`
+        )
       );
 
-      const shouldOverwrite = await confirm({
-        message: chalk.yellow(`Overwrite existing ${variableName}?`),
-        default: false,
-      });
+      const shouldOverwrite = await confirm(
+        {
+          message: chalk.yellow(`Overwrite existing ${names}?`),
+          default: false,
+        },
+        { value: options.overwrite, flag: "--overwrite" }
+      );
 
       if (!shouldOverwrite) {
-        console.log(
-          chalk.gray(
-            "\nSetup cancelled. Your existing configuration was not modified."
-          )
+        throw new UserCancelledError(
+          "Setup cancelled. Your existing configuration was not modified."
         );
-        process.exit(0);
       }
     }
   } else {
@@ -144,61 +295,115 @@ export async function getEnvConfig(): Promise<EnvConfig> {
   return {
     envPath: resolvedPath,
     variableName: variableName.trim(),
+    ...(encrypted ? { encrypted } : {}),
   };
 }
 
 /**
- * Write database URL to .env file
+ * Write `variables` (name → value) to the config's .env file: the main
+ * variable first, then e.g. the same connection in other driver formats.
+ * The previous version goes to the backup history (see backups.ts). An
+ * encrypted file is decrypted, edited and encrypted again with the key
+ * from `keyFile` or DB_SETUP_ENV_KEY, generated if there is none yet.
  */
-export async function writeDatabaseUrl(
-  databaseUrl: string,
-  config: EnvConfig
+export async function writeEnvVariables(
+  config: EnvConfig,
+  variables: Record<string, string>,
+  keepBackups = DEFAULT_KEEP_BACKUPS,
+  keyFile?: string
 ): Promise<void> {
   try {
     const { envPath, variableName } = config;
 
-    let envContent = "";
-
     // Read existing content if file exists
-    if (existsSync(envPath)) {
-      envContent = readFileSync(envPath, "utf-8");
+    const fileContent = existsSync(envPath)
+      ? readFileSync(envPath, "utf-8")
+      : "";
+    const encrypted = config.encrypted || isEncryptedEnv(fileContent);
+    const originalContent = isEncryptedEnv(fileContent)
+      ? decryptEnv(fileContent, loadEnvKey(keyFile).key, envPath)
+      : fileContent;
+    const doc = parseEnv(originalContent);
+
+    const updated: string[] = [];
+    const added: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(variables)) {
+      if (updateEnvValue(doc, name, value)) {
+        updated.push(name);
+      } else {
+        added[name] = value;
+      }
+    }
 
-      // Create backup
-      const backupPath = `${envPath}.backup`;
-      writeFileSync(backupPath, envContent);
-      console.log(chalk.gray(`\n💾 Backup created: ${backupPath}`));
+    if (Object.keys(added).length > 0) {
+      appendEnvValues(doc, added, "# Database Configuration");
     }
 
-    // Check if variable already exists
-    const variableRegex = new RegExp(`^${variableName}=.*$`, "m");
+    // Loaders disagree on which duplicate wins, so every copy was updated
+    const duplicates = findDuplicateKeys(doc);
+    for (const name of updated.filter((name) => duplicates[name])) {
+      console.log(
+        chalk.yellow(
+          `⚠️  ${name} is defined ${duplicates[name].length} times in ${envPath} (lines ${duplicates[name].join(", ")}); all of them were updated`
+        )
+      );
+    }
 
-    // Escape $ in database URL for regex replacement
-    const escapedUrl = databaseUrl.replace(/\$/g, "$$$$");
+    const envContent = serializeEnv(doc);
 
-    if (variableRegex.test(envContent)) {
-      // Replace existing variable
-      envContent = envContent.replace(
-        variableRegex,
-        `${variableName}=${escapedUrl}`
-      );
+    // Show what would change instead of touching the file
+    if (isDryRun()) {
       console.log(
-        chalk.greenBright(`\n✅ Updated ${variableName} in ${envPath}`)
+        chalk.cyan(
+          `\n[dry-run] Changes to ${envPath}${encrypted ? " (before encryption)" : ""}:`
+        )
       );
-    } else {
-      // Add new variable
-      if (envContent.length > 0 && !envContent.endsWith("\n")) {
-        envContent += "\n";
-      }
+      printDiff(redact(originalContent), redact(envContent));
+      return;
+    }
 
-      // Add section comment and variable
-      envContent += `\n# Database Configuration\n${variableName}=${escapedUrl}\n`;
+    // The backup is the file as it was, so still encrypted if it was
+    const backupPath = existsSync(envPath)
+      ? createBackup(envPath, fileContent, keepBackups)
+      : undefined;
+    if (backupPath) {
       console.log(
-        chalk.greenBright(`\n✅ Added ${variableName} to ${envPath}`)
+        chalk.gray(
+          `\n💾 Backup created: ${relative(process.cwd(), backupPath)}`
+        )
       );
     }
 
     // Write the updated content
-    writeFileSync(envPath, envContent, "utf-8");
+    if (encrypted) {
+      const envKey = loadEnvKey(keyFile, { create: true });
+      if (envKey.keyFile && envKey.created) {
+        console.log(
+          chalk.yellowBright(
+            `\n🔑 Generated a key in ${relative(process.cwd(), envKey.keyFile)}. Share it like a password and keep it out of git; CI can set ${ENV_KEY_VARIABLE} instead.`
+          )
+        );
+      }
+      writeFileSync(envPath, encryptEnv(envContent, envKey.key), "utf-8");
+      console.log(
+        chalk.gray(
+          `\n🔒 Encrypted with the key from ${envKey.keyFile ? relative(process.cwd(), envKey.keyFile) : ENV_KEY_VARIABLE}`
+        )
+      );
+    } else {
+      writeFileSync(envPath, envContent, "utf-8");
+    }
+
+    for (const name of Object.keys(variables)) {
+      console.log(
+        chalk.greenBright(
+          updated.includes(name)
+            ? `\n✅ Updated ${name} in ${envPath}`
+            : `\n✅ Added ${name} to ${envPath}`
+        )
+      );
+    }
 
     console.log(chalk.cyan(`\n📍 Location: ${envPath}`));
     console.log(chalk.cyan(`📝 Variable: ${variableName}`));
@@ -209,45 +414,256 @@ export async function writeDatabaseUrl(
 }
 
 /**
- * Show the configured database URL (masked for security)
+ * Show the configured variables (masked for security)
  */
-export function showDatabaseUrl(
-  databaseUrl: string,
-  variableName: string
-): void {
-  // Mask the password in the connection string for display
-  const maskedUrl = databaseUrl.replace(/(:\/\/)([^:]+):([^@]+)@/, "$1$2:***@");
+export function showDatabaseUrl(variables: Record<string, string>): void {
+  console.log(chalk.greenBright(`\n✅ Database configured successfully!\n`));
+  for (const [name, value] of Object.entries(variables)) {
+    console.log(chalk.gray(`${name}=${redact(value)}`));
+  }
+}
 
-  console.log(chalk.greenBright(`\n✅ Database configured successfully!`));
-  console.log(chalk.gray(`\n${variableName}=${maskedUrl}`));
+/**
+ * In a monorepo, ask which packages get the variables (--workspace takes
+ * a directory or package name). Each picked package yields its env file;
+ * `undefined` stands for the repository root, whose file is asked next.
+ */
+const chooseWorkspaceEnvPaths = async (
+  selected?: string[]
+): Promise<Array<string | undefined>> => {
+  const workspaces = discoverWorkspaces();
+
+  if (workspaces.length === 0) {
+    if (selected?.length) {
+      throw new Error(
+        "No workspace packages found for --workspace (looked at package.json, pnpm-workspace.yaml, nx.json and turbo.json)"
+      );
+    }
+    return [undefined];
+  }
+
+  const dirs = await checkbox(
+    {
+      message: chalk.cyan("Which packages should get the database variables?"),
+      required: true,
+      choices: [
+        { name: "Repository root", value: ".", checked: true },
+        ...workspaces.map((workspace) => ({
+          name:
+            `${workspace.dir} (${workspace.name})` +
+            chalk.gray(
+              workspace.envFiles.length
+                ? ` ${workspace.envFiles.join(", ")}`
+                : " no .env yet"
+            ),
+          value: workspace.dir,
+        })),
+      ],
+    },
+    {
+      value: selected?.map(
+        (value) =>
+          workspaces.find((workspace) => workspace.name === value)?.dir ??
+          value.replace(/^\.\/|\/$/g, "")
+      ),
+      flag: "--workspace",
+    }
+  );
+
+  return dirs.map((dir) => {
+    const workspace = workspaces.find((entry) => entry.dir === dir);
+    return workspace ? workspaceEnvPath(workspace) : undefined;
+  });
+};
+
+/**
+ * A connection string and the env file it goes to (asked when unset)
+ */
+export interface EnvTarget {
+  databaseUrl: string;
+  /** The provider's URLs by kind, for presets and --endpoint */
+  endpoints?: ConnectionEndpoints;
+  envPath?: string;
 }
 
 /**
- * Validate if a string is a valid PostgreSQL connection string
+ * Complete environment setup flow. `endpoints` are the provider's URLs by
+ * kind, written to several variables with a preset or --endpoint.
  */
-export function validateConnectionString(url: string): boolean {
-  const postgresUrlRegex = /^postgres(ql)?:\/\/.+/;
-  return postgresUrlRegex.test(url);
+export async function setupEnvironment(
+  databaseUrl: string,
+  options: SetupOptions = {},
+  endpoints: ConnectionEndpoints = {}
+): Promise<EnvConfig[]> {
+  // One pass per preset env file or picked workspace package, or a
+  // single prompted one
+  const envPaths = options.envPaths?.length
+    ? options.envPaths
+    : await chooseWorkspaceEnvPaths(options.workspaces);
+
+  return writeEnvTargets(
+    envPaths.map((envPath) => ({ databaseUrl, endpoints, envPath })),
+    options
+  );
 }
 
 /**
- * Complete environment setup flow
+ * Write each target's connection to its env file. The questions about
+ * which variables to write are asked once and apply to every file.
  */
-export async function setupEnvironment(databaseUrl: string): Promise<void> {
-  // Validate connection string
-  if (!validateConnectionString(databaseUrl)) {
-    console.error(
-      chalk.red("\n❌ Invalid PostgreSQL connection string format")
+export async function writeEnvTargets(
+  envTargets: EnvTarget[],
+  options: SetupOptions = {}
+): Promise<EnvConfig[]> {
+  const formats = parseFormatTargets(options.formats ?? []);
+  let targets = parseEndpointTargets(options.preset, options.endpoints ?? []);
+
+  // Validate connection strings and write them in URL form
+  try {
+    envTargets = envTargets.map((target) => ({
+      ...target,
+      databaseUrl: normalizeConnectionString(target.databaseUrl),
+    }));
+  } catch (error) {
+    if (error instanceof ConnectionStringSyntaxError) {
+      console.error(
+        chalk.red("\n❌ Invalid PostgreSQL connection string format")
+      );
+    }
+    throw error;
+  }
+
+  // Offer the presets when the provider has e.g. pooled and direct URLs
+  if (
+    targets.length === 0 &&
+    options.variableName === undefined &&
+    envTargets.some((target) => hasSeveralEndpoints(target.endpoints ?? {}))
+  ) {
+    const preset = await select(
+      {
+        message: chalk.cyan("Which variables should be written?"),
+        default: "single",
+        choices: [
+          { name: "One variable (choose its name next)", value: "single" },
+          ...ENDPOINT_PRESETS.map((entry) => ({
+            name: entry.label,
+            value: entry.id,
+          })),
+        ],
+      },
+      { flag: "--preset" }
     );
-    throw new Error("Invalid connection string");
+
+    if (preset !== "single") {
+      targets = parseEndpointTargets(preset, []);
+    }
   }
 
-  // Get environment configuration from user
-  const config = await getEnvConfig();
+  // PGHOST, PGPORT, ... for psql, Flyway and friends, which need a direct
+  // connection. Only written when --pg-vars or the config file asks.
+  const pgPrefix = options.pgPrefix ?? "PG";
+  const pgNames = pgVariableNames(pgPrefix);
+  const pgMode: PgVariablesMode = options.pgVariables ?? "none";
+
+  const written: EnvConfig[] = [];
+  let variables: Record<string, string> = {};
+
+  for (const { databaseUrl, endpoints = {}, envPath } of envTargets) {
+    // Variable name → URL for the mapped endpoints, main variable first
+    const endpointVariables: Record<string, string> = {};
+    for (const target of targets) {
+      const { url, fallback } = resolveEndpoint(target, endpoints, databaseUrl);
+      if (fallback) {
+        console.log(
+          chalk.gray(
+            `ℹ️  No separate ${target.endpoint} endpoint; ${target.variableName} gets the same URL`
+          )
+        );
+      }
+      endpointVariables[target.variableName] = url;
+    }
+
+    const pgValues = toPgVariables(endpoints.direct ?? databaseUrl, pgPrefix);
+
+    // Get environment configuration from user
+    const config = await getEnvConfig(
+      {
+        ...options,
+        envPaths: envPath === undefined ? undefined : [envPath],
+      },
+      pgMode === "only"
+        ? pgNames
+        : targets.length
+          ? Object.keys(endpointVariables)
+          : undefined
+    );
+
+    // PG* variables from an earlier run follow the new URL
+    const syncPg =
+      pgMode === "none" &&
+      existsSync(config.envPath) &&
+      pgNames.some((name) =>
+        hasEnvKey(parseEnv(readEnvFile(config.envPath, options.keyFile)), name)
+      );
+    if (syncPg) {
+      console.log(
+        chalk.gray(`🔄 Updating the existing ${pgPrefix}* variables to match`)
+      );
+    }
+
+    // The same connection for other drivers, e.g. JDBC_DATABASE_URL
+    const connection = parseConnectionString(databaseUrl);
+    const formatVariables = Object.fromEntries(
+      formats.map(({ format, variableName }) => [
+        variableName,
+        format.render(connection),
+      ])
+    );
+
+    variables = {
+      ...(pgMode === "only"
+        ? {}
+        : { [config.variableName]: databaseUrl, ...endpointVariables }),
+      ...(pgMode !== "none" || syncPg ? pgValues : {}),
+    };
+
+    // Keep the credentials out of git, then write to file. An encrypted
+    // file is meant to be committed; its key is not.
+    if (!config.encrypted) {
+      await ensureGitSafe(config.envPath, options.force, options.keepBackups);
+    } else if (!process.env[ENV_KEY_VARIABLE]) {
+      await ensureGitSafe(
+        resolve(process.cwd(), options.keyFile ?? DEFAULT_KEY_FILE),
+        options.force,
+        0
+      );
+    }
+    await writeEnvVariables(
+      config,
+      { ...variables, ...formatVariables },
+      options.keepBackups,
+      options.keyFile
+    );
+    written.push(config);
+
+    // The committed example gets placeholders, never these values
+    syncEnvExample(
+      config.envPath,
+      { ...variables, ...formatVariables },
+      placeholderVariables({
+        urlNames:
+          pgMode === "only"
+            ? []
+            : [config.variableName, ...Object.keys(endpointVariables)],
+        pgNames: pgMode !== "none" || syncPg ? pgNames : [],
+        formats,
+      }),
+      options.keyFile
+    );
+  }
 
-  // Write to file
-  await writeDatabaseUrl(databaseUrl, config);
+  // Show success message with masked URLs
+  showDatabaseUrl(variables);
 
-  // Show success message with masked URL
-  showDatabaseUrl(databaseUrl, config.variableName);
+  return written;
 }
@@ -0,0 +1,85 @@
+import chalk from "chalk";
+import { relative } from "path";
+import { parseConnectionString } from "./utils/connection-string";
+
+/**
+ * An environment that gets its own database and env file
+ */
+export interface EnvironmentTarget {
+  name: string;
+  envPath: string;
+}
+
+/**
+ * Environments from --environment / config entries: "test" writes
+ * .env.test, "test=config/test.env" writes that file
+ */
+export const parseEnvironmentTargets = (
+  specs: string[]
+): EnvironmentTarget[] => {
+  const targets: EnvironmentTarget[] = [];
+
+  for (const spec of specs) {
+    const [name, envPath] = spec.split("=", 2).map((s) => s.trim());
+
+    if (!/^[a-z][a-z0-9_-]*$/i.test(name)) {
+      throw new Error(
+        `Invalid environment name "${name}" in "${spec}": use letters, numbers, "-" and "_"`
+      );
+    }
+    if (targets.some((target) => target.name === name)) {
+      throw new Error(`Environment "${name}" is listed twice`);
+    }
+
+    targets.push({ name, envPath: envPath || `.env.${name}` });
+  }
+
+  const paths = targets.map((target) => target.envPath);
+  const shared = paths.find((path, i) => paths.indexOf(path) !== i);
+  if (shared) {
+    throw new Error(
+      `Two environments write to ${shared}; each needs its own env file`
+    );
+  }
+
+  return targets;
+};
+
+/**
+ * What an environment's URL points at, without credentials:
+ * "localhost:5432/app_test", plus the schema when search_path is set
+ */
+export const describeDatabase = (databaseUrl: string): string => {
+  const parsed = parseConnectionString(databaseUrl);
+  const hosts = parsed.hosts
+    .map((h) => (h.port ? `${h.host}:${h.port}` : h.host))
+    .join(",");
+  const schema = /search_path=([^\s,]+)/.exec(parsed.params.options ?? "");
+
+  return (
+    `${hosts || "localhost"}/${parsed.database ?? ""}` +
+    (schema ? ` (schema ${schema[1]})` : "")
+  );
+};
+
+/**
+ * Print which database each environment's env file now points at
+ */
+export const printEnvironmentSummary = (
+  environments: Array<{
+    name: string;
+    databaseUrl: string;
+    envPath: string;
+  }>
+): void => {
+  const width = Math.max(...environments.map((env) => env.name.length));
+
+  console.log(chalk.blueBright("\n📋 Environments:"));
+  for (const env of environments) {
+    console.log(
+      chalk.cyan(
+        `  ${env.name.padEnd(width)}  ${relative(process.cwd(), env.envPath)} → ${describeDatabase(env.databaseUrl)}`
+      )
+    );
+  }
+};
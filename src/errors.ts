@@ -0,0 +1,129 @@
+/**
+ * Process exit codes, one per failure kind so scripts can tell them apart
+ */
+export const EXIT_CODES = {
+  GENERAL: 1,
+  MISSING_CLI: 3,
+  AUTH_FAILED: 4,
+  PROVISIONING_FAILED: 5,
+  CONNECTION_STRING_UNAVAILABLE: 6,
+  DATABASE_UNREACHABLE: 7,
+  TRACKED_ENV_FILE: 8,
+  USER_CANCELLED: 130,
+} as const;
+
+export type SetupErrorCode = Exclude<keyof typeof EXIT_CODES, "GENERAL">;
+
+export interface SetupErrorOptions {
+  /** What the user can do about it, printed under the message */
+  hint?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for expected setup failures. main() prints the message and
+ * hint and exits with the code's exit status instead of a stack trace.
+ */
+export class SetupError extends Error {
+  readonly code: SetupErrorCode;
+  readonly hint?: string;
+
+  constructor(
+    code: SetupErrorCode,
+    message: string,
+    options: SetupErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.hint = options.hint;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.code];
+  }
+}
+
+/**
+ * A required command-line tool is not installed or not on PATH
+ */
+export class MissingCliError extends SetupError {
+  constructor(cli: string, options: SetupErrorOptions = {}) {
+    super("MISSING_CLI", `${cli} is not installed or not on PATH`, options);
+  }
+}
+
+/**
+ * Logging in to the provider failed
+ */
+export class AuthenticationError extends SetupError {
+  constructor(message: string, options: SetupErrorOptions = {}) {
+    super("AUTH_FAILED", message, options);
+  }
+}
+
+export interface ProvisioningErrorOptions extends SetupErrorOptions {
+  /**
+   * The failure came after the project, service or container was
+   * created, so setup stops instead of switching to the manual flow
+   */
+  created?: boolean;
+}
+
+/**
+ * Creating the project, service or container failed
+ */
+export class ProvisioningError extends SetupError {
+  readonly created: boolean;
+
+  constructor(message: string, options: ProvisioningErrorOptions = {}) {
+    super("PROVISIONING_FAILED", message, options);
+    this.created = options.created ?? false;
+  }
+}
+
+/**
+ * The database exists but its connection string could not be obtained
+ */
+export class ConnectionStringError extends SetupError {
+  constructor(message: string, options: SetupErrorOptions = {}) {
+    super("CONNECTION_STRING_UNAVAILABLE", message, options);
+  }
+}
+
+/**
+ * The connection string was obtained but the database did not accept a
+ * connection with it
+ */
+export class DatabaseUnreachableError extends SetupError {
+  constructor(message: string, options: SetupErrorOptions = {}) {
+    super("DATABASE_UNREACHABLE", message, options);
+  }
+}
+
+/**
+ * The env file to write is tracked by git, so the credentials would be
+ * committed
+ */
+export class TrackedEnvFileError extends SetupError {
+  constructor(message: string, options: SetupErrorOptions = {}) {
+    super("TRACKED_ENV_FILE", message, options);
+  }
+}
+
+/**
+ * The user declined a step or pressed Ctrl+C at a prompt
+ */
+export class UserCancelledError extends SetupError {
+  constructor(message = "Setup cancelled", options: SetupErrorOptions = {}) {
+    super("USER_CANCELLED", message, options);
+  }
+}
+
+/**
+ * Treat Ctrl+C inside an @inquirer prompt as a cancellation
+ */
+export const toSetupError = (error: unknown): unknown =>
+  error instanceof Error && error.name === "ExitPromptError"
+    ? new UserCancelledError("Setup cancelled by user", { cause: error })
+    : error;
@@ -0,0 +1,270 @@
+import {
+  formatConnectionString,
+  parseConnectionString,
+  type ParsedConnectionString,
+  type PgHost,
+} from "./utils/connection-string";
+
+/**
+ * One way of writing a connection for a particular driver or language
+ */
+export interface DriverFormat {
+  id: string;
+  label: string;
+  /** Env variable written when only the id is given, e.g. --format jdbc */
+  variableName: string;
+  render: (connection: ParsedConnectionString) => string;
+}
+
+/** Env variable plus the format to write into it */
+export interface FormatTarget {
+  format: DriverFormat;
+  variableName: string;
+}
+
+/**
+ * Parameters understood only by Prisma's connection pool; other drivers
+ * reject or ignore them
+ */
+const PRISMA_ONLY_PARAMS = [
+  "pgbouncer",
+  "connection_limit",
+  "pool_timeout",
+  "schema",
+  "statement_cache_size",
+  "socket_timeout",
+];
+
+const driverParams = (
+  connection: ParsedConnectionString
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(connection.params).filter(
+      ([key]) => !PRISMA_ONLY_PARAMS.includes(key)
+    )
+  );
+
+const hostWithPort = ({ host, port }: PgHost): string => {
+  const name = host.includes(":") ? `[${host}]` : host;
+  return port ? `${name}:${port}` : name;
+};
+
+const query = (params: Record<string, string | undefined>): string => {
+  const pairs = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value!)}`
+    );
+  return pairs.length ? `?${pairs.join("&")}` : "";
+};
+
+/**
+ * libpq keyword/value quoting: single quotes with \' and \\ escapes
+ */
+const keywordValue = (value: string): string =>
+  value === "" || /[\s'\\]/.test(value)
+    ? `'${value.replace(/[\\']/g, "\\$&")}'`
+    : value;
+
+const keywordValueDsn = (
+  connection: ParsedConnectionString,
+  params: Record<string, string>
+): string => {
+  const { hosts } = connection;
+  const entries: Array<[string, string | undefined]> = [
+    ["host", hosts.length ? hosts.map((h) => h.host).join(",") : undefined],
+    [
+      "port",
+      hosts.some((h) => h.port)
+        ? hosts.map((h) => h.port ?? 5432).join(",")
+        : undefined,
+    ],
+    ["dbname", connection.database],
+    ["user", connection.user],
+    ["password", connection.password],
+    ...Object.entries(params),
+  ];
+
+  return entries
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${keywordValue(value!)}`)
+    .join(" ");
+};
+
+/**
+ * ADO.NET quoting: double quotes with "" for a literal quote
+ */
+const adoValue = (value: string): string =>
+  /[;"'=\s]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const NPGSQL_SSL_MODES: Record<string, string> = {
+  disable: "Disable",
+  allow: "Allow",
+  prefer: "Prefer",
+  require: "Require",
+  "verify-ca": "VerifyCA",
+  "verify-full": "VerifyFull",
+};
+
+/** libpq parameter → Npgsql keyword; anything else has no equivalent */
+const NPGSQL_KEYWORDS: Record<string, string> = {
+  application_name: "Application Name",
+  connect_timeout: "Timeout",
+  options: "Options",
+  target_session_attrs: "Target Session Attributes",
+  sslcert: "SSL Certificate",
+  sslkey: "SSL Key",
+  sslpassword: "SSL Password",
+  sslrootcert: "Root Certificate",
+};
+
+export const DRIVER_FORMATS: DriverFormat[] = [
+  {
+    id: "url",
+    label: "PostgreSQL URL (Node.js, Prisma, psql)",
+    variableName: "DATABASE_URL",
+    render: (connection) => formatConnectionString(connection),
+  },
+  {
+    id: "jdbc",
+    label: "JDBC URL (Java, Spring, Kotlin)",
+    variableName: "JDBC_DATABASE_URL",
+    // pgjdbc takes credentials as parameters, not in the authority
+    render: (connection) => {
+      const hosts = connection.hosts.length
+        ? connection.hosts.map(hostWithPort).join(",")
+        : "localhost";
+      const database = encodeURIComponent(connection.database ?? "");
+      return `jdbc:postgresql://${hosts}/${database}${query({
+        user: connection.user,
+        password: connection.password,
+        ...driverParams(connection),
+      })}`;
+    },
+  },
+  {
+    id: "libpq",
+    label: "libpq keyword/value (psql, psycopg, C)",
+    variableName: "LIBPQ_DSN",
+    render: (connection) =>
+      keywordValueDsn(connection, driverParams(connection)),
+  },
+  {
+    id: "sqlalchemy",
+    label: "SQLAlchemy URL with psycopg 3 (Python)",
+    variableName: "SQLALCHEMY_DATABASE_URI",
+    render: (connection) => {
+      const url = formatConnectionString({
+        ...connection,
+        scheme: "postgresql",
+        // Several hosts go in repeated ?host= parameters instead
+        hosts: connection.hosts.length === 1 ? connection.hosts : [],
+        params: driverParams(connection),
+      }).replace(/^postgresql:/, "postgresql+psycopg:");
+
+      if (connection.hosts.length < 2) return url;
+
+      const hosts = connection.hosts
+        .map(
+          (host) =>
+            `host=${encodeURIComponent(hostWithPort(host)).replace(
+              /%5B|%5D|%3A/g,
+              decodeURIComponent
+            )}`
+        )
+        .join("&");
+      return url.includes("?") ? `${url}&${hosts}` : `${url}?${hosts}`;
+    },
+  },
+  {
+    id: "npgsql",
+    label: "ADO.NET / Npgsql connection string (.NET)",
+    variableName: "ConnectionStrings__DefaultConnection",
+    render: (connection) => {
+      const { hosts, params } = connection;
+      const parts: Array<[string, string | undefined]> = [
+        [
+          "Host",
+          hosts.length > 1
+            ? hosts.map(hostWithPort).join(",")
+            : (hosts[0]?.host ?? "localhost"),
+        ],
+        ["Port", hosts.length === 1 ? hosts[0].port?.toString() : undefined],
+        ["Database", connection.database],
+        ["Username", connection.user],
+        ["Password", connection.password],
+        [
+          "SSL Mode",
+          params.sslmode ? NPGSQL_SSL_MODES[params.sslmode] : undefined,
+        ],
+        ["Maximum Pool Size", params.connection_limit],
+        ...Object.entries(params)
+          .filter(([key]) => NPGSQL_KEYWORDS[key])
+          .map(([key, value]): [string, string] => [
+            NPGSQL_KEYWORDS[key],
+            value,
+          ]),
+      ];
+
+      return parts
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${adoValue(value!)}`)
+        .join(";");
+    },
+  },
+  {
+    id: "pgx",
+    label: "Go pgx keyword/value DSN",
+    variableName: "PGX_DSN",
+    render: (connection) => {
+      const params = driverParams(connection);
+      // pgxpool's name for the pool size
+      if (connection.params.connection_limit) {
+        params.pool_max_conns = connection.params.connection_limit;
+      }
+      return keywordValueDsn(connection, params);
+    },
+  },
+];
+
+export const getDriverFormat = (id: string): DriverFormat | undefined =>
+  DRIVER_FORMATS.find((format) => format.id === id);
+
+/**
+ * Turn --format / config entries ("jdbc" or "jdbc=SPRING_DATASOURCE_URL")
+ * into targets, rejecting unknown ids and bad variable names
+ */
+export const parseFormatTargets = (specs: string[]): FormatTarget[] =>
+  specs.map((spec) => {
+    const [id, variableName] = spec.split("=", 2).map((part) => part.trim());
+    const format = getDriverFormat(id);
+
+    if (!format) {
+      throw new Error(
+        `Unknown format "${id}". Expected one of: ${DRIVER_FORMATS.map(
+          (entry) => entry.id
+        ).join(", ")}`
+      );
+    }
+
+    if (
+      variableName !== undefined &&
+      !/^[A-Z_][A-Z0-9_]*$/i.test(variableName)
+    ) {
+      throw new Error(`Invalid variable name "${variableName}" for ${id}`);
+    }
+
+    return { format, variableName: variableName || format.variableName };
+  });
+
+/**
+ * Render a connection string in another driver's format
+ */
+export const convertConnectionString = (
+  databaseUrl: string,
+  formatId: string
+): string => {
+  const [{ format }] = parseFormatTargets([formatId]);
+  return format.render(parseConnectionString(databaseUrl));
+};
@@ -0,0 +1,161 @@
+import { existsSync, readFileSync, realpathSync, writeFileSync } from "fs";
+import { basename, dirname, join, relative, sep } from "path";
+import chalk from "chalk";
+import { getCommandRunner, isDryRun } from "./utils/exec";
+import { printDiff } from "./utils/diff";
+import { warn } from "./utils/output";
+import { confirm } from "./utils/prompts";
+import { TrackedEnvFileError } from "./errors";
+import { BACKUP_DIR, DEFAULT_KEEP_BACKUPS } from "./backups";
+
+/**
+ * Run a read-only git query. It goes straight to the runner so that
+ * --dry-run checks the real repository too.
+ */
+const git = (args: string[], cwd: string) =>
+  getCommandRunner().run("git", args, { cwd, timeout: 10_000 });
+
+/**
+ * Top-level directory of the repository containing `dir`, or undefined
+ * outside a repository or without git
+ */
+export const findGitRoot = (dir: string): string | undefined => {
+  const result = git(["rev-parse", "--show-toplevel"], dir);
+  return result.status === 0 ? result.stdout.trim() || undefined : undefined;
+};
+
+export interface GitFileStatus {
+  /**
+   * Relative to the repository root, with forward slashes; directories
+   * end in "/"
+   */
+  path: string;
+  tracked: boolean;
+  ignored: boolean;
+}
+
+/**
+ * Whether each file is committed (or staged) and whether .gitignore
+ * covers it. A path ending in "/" is a directory, tracked when any file
+ * in it is.
+ */
+export const getGitStatus = (
+  root: string,
+  files: string[]
+): GitFileStatus[] => {
+  const paths = files.map(
+    (file) =>
+      relative(root, file).split(sep).join("/") +
+      (file.endsWith("/") ? "/" : "")
+  );
+  const listed = (args: string[]) =>
+    new Set(
+      git([...args, "--", ...paths], root)
+        .stdout.split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+    );
+
+  const tracked = listed(["ls-files"]);
+  const ignored = listed(["check-ignore"]);
+
+  return paths.map((path) => ({
+    path,
+    tracked: path.endsWith("/")
+      ? [...tracked].some((file) => file.startsWith(path))
+      : tracked.has(path),
+    ignored: ignored.has(path),
+  }));
+};
+
+/**
+ * Append `paths` to the repository's .gitignore (shown as a diff in
+ * --dry-run)
+ */
+const addToGitignore = (root: string, paths: string[]): void => {
+  const gitignorePath = join(root, ".gitignore");
+  const original = existsSync(gitignorePath)
+    ? readFileSync(gitignorePath, "utf-8")
+    : "";
+  const separator =
+    original === "" ? "" : original.endsWith("\n") ? "\n" : "\n\n";
+  const content = `${original}${separator}# Env files with database credentials\n${paths.join("\n")}\n`;
+
+  if (isDryRun()) {
+    console.log(chalk.cyan(`\n[dry-run] Changes to ${gitignorePath}:`));
+    printDiff(original, content);
+    return;
+  }
+
+  writeFileSync(gitignorePath, content, "utf-8");
+  console.log(
+    chalk.greenBright(`✅ Added ${paths.join(", ")} to ${gitignorePath}`)
+  );
+};
+
+/**
+ * Before credentials go into `envPath` (and its old version into the
+ * backup directory, when the file exists and backups are kept): refuse if
+ * git tracks either one unless `force`, and offer to ignore the ones
+ * .gitignore does not cover. Outside a repository this does nothing.
+ */
+export const ensureGitSafe = async (
+  envPath: string,
+  force = false,
+  keepBackups = DEFAULT_KEEP_BACKUPS
+): Promise<void> => {
+  const root = findGitRoot(dirname(envPath));
+  if (!root) return;
+
+  // git reports the root with symlinks resolved (/private/tmp on macOS)
+  const realPath = join(realpathSync(dirname(envPath)), basename(envPath));
+  const backupRoot = `${join(realpathSync(process.cwd()), BACKUP_DIR.split("/")[0])}/`;
+  const files =
+    existsSync(envPath) &&
+    keepBackups > 0 &&
+    !relative(root, backupRoot).startsWith("..")
+      ? [realPath, backupRoot]
+      : [realPath];
+  const statuses = getGitStatus(root, files);
+
+  const tracked = statuses.filter((status) => status.tracked);
+  if (tracked.length > 0) {
+    const paths = tracked.map((status) => status.path).join(", ");
+
+    if (!force) {
+      throw new TrackedEnvFileError(
+        `${paths} ${tracked.length > 1 ? "are" : "is"} tracked by git; the database credentials would end up in the next commit`,
+        {
+          hint: `Untrack it with "git rm ${tracked[0].path.endsWith("/") ? "-r " : ""}--cached ${tracked[0].path}" and ignore it, or pass --force to write anyway.`,
+        }
+      );
+    }
+
+    warn(`Writing credentials to ${paths} although git tracks it (--force)`);
+  }
+
+  const unignored = statuses.filter(
+    (status) => !status.tracked && !status.ignored
+  );
+  if (unignored.length === 0) return;
+
+  const paths = unignored.map((status) => status.path);
+  console.log(
+    chalk.yellowBright(
+      `\n⚠️  ${paths.join(", ")} ${paths.length > 1 ? "are" : "is"} not ignored by git`
+    )
+  );
+
+  const shouldIgnore = await confirm({
+    message: chalk.cyan(`Add ${paths.join(", ")} to .gitignore?`),
+    default: true,
+  });
+
+  if (shouldIgnore) {
+    addToGitignore(root, paths);
+  } else {
+    warn(
+      `${paths.join(", ")} can be committed by accident; keep it out of git`
+    );
+  }
+};
@@ -1,57 +1,110 @@
-#!/usr/bin/env node
+/**
+ * Library entry: importing this module has no side effects beyond
+ * registering the built-in providers. The CLI lives in ./cli.ts.
+ */
+import { handleDatabaseSetup, type DatabaseSetupResult } from "./database";
+import { loadProviderPlugins } from "./providers/plugins";
+import { isAssumingYes, setAssumeYes } from "./utils/prompts";
+import { isDryRun, setDryRun } from "./utils/exec";
+import {
+  enableRedaction,
+  isShowingSecrets,
+  setShowSecrets,
+} from "./utils/output";
+import type { SetupOptions } from "./options";
 
-import { handleDatabaseSetup } from "./database";
-import { initializeEnvFile } from "./env";
-import chalk from "chalk";
+export interface SetupDatabaseOptions extends SetupOptions {
+  /** Accept the default for any question without an answer (like --yes) */
+  yes?: boolean;
+  /** Print commands and .env diffs instead of running/writing (--dry-run) */
+  dryRun?: boolean;
+  /** Print passwords and tokens instead of *** (--show-secrets) */
+  showSecrets?: boolean;
+  /** Extra provider plugin modules or packages to load first */
+  plugins?: string[];
+}
 
-async function main() {
-  try {
-    console.log(chalk.bold.cyan("\n🗄️  Database Setup CLI\n"));
-    console.log(chalk.gray("Configure your PostgreSQL database with ease!\n"));
+/**
+ * Provision a database and write its connection string to .env files.
+ *
+ * Every answer given in `options` skips the matching prompt; anything
+ * missing is prompted for when stdin is a TTY and otherwise rejects with
+ * an error naming the missing option. Resolves to null for
+ * `provider: "later"`. Failures reject with the SetupError subclasses
+ * exported from this module.
+ */
+export const setupDatabase = async (
+  options: SetupDatabaseOptions = {}
+): Promise<DatabaseSetupResult | null> => {
+  const { yes, dryRun, showSecrets, plugins, ...setupOptions } = options;
 
-    // Initialize .env from .env.example if it exists
-    initializeEnvFile();
+  // Put back afterwards so one call does not change the next
+  const previous = {
+    yes: isAssumingYes(),
+    dryRun: isDryRun(),
+    showSecrets: isShowingSecrets(),
+  };
+  setAssumeYes(yes ?? false);
+  setDryRun(dryRun ?? false);
+  setShowSecrets(showSecrets ?? false);
 
-    // Handle database setup
-    const databaseUrl = await handleDatabaseSetup();
+  // Console output is redacted only while setup runs
+  const disableRedaction = enableRedaction();
 
-    if (databaseUrl) {
-      console.log(chalk.green("\n🎉 Setup completed successfully!\n"));
-      console.log(chalk.cyan("Next steps:"));
-      console.log(chalk.gray("  1. ✓ Database connection configured"));
-      console.log(chalk.gray("  2. → Review your .env file"));
-      console.log(chalk.gray("  3. → Run database migrations (if applicable)"));
-      console.log(chalk.gray("  4. → Start your application"));
-      console.log(chalk.gray("  5. → Start building! 🚀\n"));
-    } else {
-      console.log(
-        chalk.yellow("\n⏭️  Setup skipped. You can run this again anytime.\n")
-      );
-    }
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(chalk.red("\n❌ Setup failed:"), error.message);
-    } else {
-      console.error(chalk.red("\n❌ Setup failed:"), error);
-    }
-    console.log(
-      chalk.gray(
-        "\nTip: Run the command again or check the error message above.\n"
-      )
-    );
-    process.exit(1);
-  }
-}
-
-// Handle graceful shutdown
-process.on("SIGINT", () => {
-  console.log(chalk.yellow("\n\n⚠️  Setup cancelled by user"));
-  process.exit(0);
-});
+  try {
+    // Installed db-setup-provider-* packages plus any listed here
+    await loadProviderPlugins(plugins);
 
-process.on("SIGTERM", () => {
-  console.log(chalk.yellow("\n\n⚠️  Setup cancelled"));
-  process.exit(0);
-});
+    return await handleDatabaseSetup(setupOptions);
+  } finally {
+    disableRedaction();
+    setAssumeYes(previous.yes);
+    setDryRun(previous.dryRun);
+    setShowSecrets(previous.showSecrets);
+  }
+};
 
-main();
+export type { DatabaseSetupResult, EnvironmentSetupResult } from "./database";
+export type { EnvConfig } from "./env";
+export type { ConnectionCheck } from "./verify";
+export type { LocalDockerOptions, SetupOptions } from "./options";
+export type {
+  ConnectionEndpoints,
+  ConnectionInfo,
+  DatabaseProvider,
+  EndpointKind,
+  ProviderPlugin,
+  ProvisionedDatabase,
+} from "./providers/types";
+export { PROVIDER_API_VERSION } from "./providers/types";
+export {
+  getProvider,
+  listProviders,
+  registerProvider,
+  unregisterProvider,
+} from "./providers";
+export {
+  runCommand,
+  setCommandRunner,
+  spawnRunner,
+  type CommandResult,
+  type CommandRunner,
+  type RunOptions,
+} from "./utils/exec";
+export {
+  createRecordingRunner,
+  createReplayRunner,
+  type RecordedCommand,
+} from "./utils/fake-runner";
+export {
+  AuthenticationError,
+  ConnectionStringError,
+  DatabaseUnreachableError,
+  EXIT_CODES,
+  MissingCliError,
+  ProvisioningError,
+  SetupError,
+  TrackedEnvFileError,
+  UserCancelledError,
+  type SetupErrorCode,
+} from "./errors";
@@ -0,0 +1,59 @@
+/**
+ * Options for the local Docker PostgreSQL container
+ */
+export interface LocalDockerOptions {
+  image?: string;
+  containerName?: string;
+  port?: number;
+  user?: string;
+  database?: string;
+}
+
+/**
+ * Answers that can be supplied up front (from command-line flags or a
+ * config file) instead of being asked interactively
+ */
+export interface SetupOptions {
+  provider?: string;
+  region?: string;
+  name?: string;
+  envPaths?: string[];
+  /**
+   * A separate database per environment, each written to its own env
+   * file: "test" (.env.test) or "test=config/test.env"
+   */
+  environments?: string[];
+  /** Monorepo packages (directory or name) whose env files get the variables */
+  workspaces?: string[];
+  variableName?: string;
+  databaseUrl?: string;
+  docker?: LocalDockerOptions;
+  /**
+   * The same connection in other driver formats as extra variables:
+   * "jdbc" or "jdbc=SPRING_DATASOURCE_URL" (see formats.ts)
+   */
+  formats?: string[];
+  /**
+   * Variables for the provider's endpoints from a preset: "prisma",
+   * "drizzle" or "pg" (see endpoints.ts)
+   */
+  preset?: string;
+  /** Extra or overriding endpoint variables: "DIRECT_URL=direct" */
+  endpoints?: string[];
+  /** Write PGHOST, PGPORT, ... as well as ("also") or instead of ("only") the URL */
+  pgVariables?: "none" | "also" | "only";
+  /** Prefix replacing "PG" in those names, e.g. "DB_" for DB_HOST */
+  pgPrefix?: string;
+  /** Write credentials even into an env file that git tracks */
+  force?: boolean;
+  /** Replace variables the env file already has (asked otherwise) */
+  overwrite?: boolean;
+  /** Previous versions kept per env file in .db-setup/backups (0 keeps none) */
+  keepBackups?: number;
+  /** Write an AES-GCM encrypted .env.enc instead of a plain env file */
+  encrypt?: boolean;
+  /** Key for encrypted env files when DB_SETUP_ENV_KEY is not set (default .env.key) */
+  keyFile?: string;
+  /** Connect to the database before writing it to .env (default true) */
+  verify?: boolean;
+}
@@ -0,0 +1,67 @@
+import { parseConnectionString } from "./utils/connection-string";
+import { registerSecret } from "./utils/output";
+
+/**
+ * libpq's environment variables, without the "PG" prefix
+ */
+export const PG_VARIABLE_SUFFIXES = [
+  "HOST",
+  "PORT",
+  "USER",
+  "PASSWORD",
+  "DATABASE",
+  "SSLMODE",
+] as const;
+
+/**
+ * "none" writes only the URL, "also" writes PGHOST etc. next to it and
+ * "only" writes them instead of it
+ */
+export type PgVariablesMode = "none" | "also" | "only";
+
+export const PG_VARIABLES_MODES: PgVariablesMode[] = ["none", "also", "only"];
+
+/**
+ * e.g. ["PGHOST", "PGPORT", ...], or ["DB_HOST", ...] for prefix "DB_"
+ */
+export const pgVariableNames = (prefix = "PG"): string[] => {
+  if (!/^([A-Z_][A-Z0-9_]*)?$/i.test(prefix)) {
+    throw new Error(
+      `Invalid PG variable prefix "${prefix}": use letters, numbers and underscores`
+    );
+  }
+  return PG_VARIABLE_SUFFIXES.map((suffix) => `${prefix}${suffix}`);
+};
+
+/**
+ * Split a connection string into PGHOST, PGPORT, ... Several hosts become
+ * libpq's comma-separated lists; anything the URL leaves out gets libpq's
+ * default so the set is always complete.
+ */
+export const toPgVariables = (
+  databaseUrl: string,
+  prefix = "PG"
+): Record<string, string> => {
+  const connection = parseConnectionString(databaseUrl);
+  const hosts = connection.hosts.length
+    ? connection.hosts
+    : [{ host: "localhost" }];
+  const user = connection.user ?? "postgres";
+  const password = connection.password ?? "";
+
+  registerSecret(password);
+
+  const values: Record<(typeof PG_VARIABLE_SUFFIXES)[number], string> = {
+    HOST: hosts.map((h) => h.host).join(","),
+    PORT: hosts.map((h) => h.port ?? 5432).join(","),
+    USER: user,
+    PASSWORD: password,
+    DATABASE: connection.database ?? user,
+    SSLMODE: connection.params.sslmode ?? "prefer",
+  };
+
+  const names = pgVariableNames(prefix);
+  return Object.fromEntries(
+    PG_VARIABLE_SUFFIXES.map((suffix, i) => [names[i], values[suffix]])
+  );
+};
@@ -1,6 +1,15 @@
-import { spawnSync } from "child_process";
-import { select, input, confirm } from "@inquirer/prompts";
 import chalk from "chalk";
+import { isDryRun, runCommand, type RunOptions } from "../utils/exec";
+import {
+  ConnectionStringError,
+  MissingCliError,
+  ProvisioningError,
+} from "../errors";
+import { select, input, confirm, password } from "../utils/prompts";
+import { validateConnectionString } from "../utils/connection-string";
+import type { SetupOptions } from "../options";
+import { teardownAfterFailure } from "./registry";
+import type { DatabaseProvider, ProvisionedDatabase } from "./types";
 
 /**
  * Open URL in default browser
@@ -17,22 +26,23 @@ const openBrowser = (url: string): void => {
     command = "xdg-open";
   }
 
-  spawnSync(command, [url], { shell: true, stdio: "ignore" });
+  runCommand(command, [url], { stdio: "ignore" });
 };
 
 /**
- * Detect which command works for Aiven CLI
+ * How to invoke the Aiven CLI: `avn` or `python -m aiven.client`
  */
-const detectAvnCommand = (): {
+interface AvnCli {
   cmd: string;
   args: (originalArgs: string[]) => string[];
-} | null => {
+}
+
+/**
+ * Detect which command works for Aiven CLI
+ */
+const detectAvnCommand = (): AvnCli | null => {
   // Try direct avn command
-  const directTest = spawnSync("avn", ["--version"], {
-    encoding: "utf-8",
-    shell: true,
-    stdio: "pipe",
-  });
+  const directTest = runCommand("avn", ["--version"]);
 
   if (directTest.status === 0) {
     return {
@@ -42,11 +52,7 @@ const detectAvnCommand = (): {
   }
 
   // Try python -m aiven.client
-  const pythonTest = spawnSync("python", ["-m", "aiven.client", "--version"], {
-    encoding: "utf-8",
-    shell: true,
-    stdio: "pipe",
-  });
+  const pythonTest = runCommand("python", ["-m", "aiven.client", "--version"]);
 
   if (pythonTest.status === 0) {
     return {
@@ -56,15 +62,11 @@ const detectAvnCommand = (): {
   }
 
   // Try python3 -m aiven.client
-  const python3Test = spawnSync(
-    "python3",
-    ["-m", "aiven.client", "--version"],
-    {
-      encoding: "utf-8",
-      shell: true,
-      stdio: "pipe",
-    }
-  );
+  const python3Test = runCommand("python3", [
+    "-m",
+    "aiven.client",
+    "--version",
+  ]);
 
   if (python3Test.status === 0) {
     return {
@@ -76,34 +78,48 @@ const detectAvnCommand = (): {
   return null;
 };
 
-// Global variable to store the detected command
-let avnCommandConfig: {
-  cmd: string;
-  args: (originalArgs: string[]) => string[];
-} | null = null;
+/**
+ * Detect the Aiven CLI for a step that cannot run without it
+ */
+const requireAvnCli = (): AvnCli => {
+  const avn = detectAvnCommand();
+
+  if (!avn) {
+    throw new MissingCliError("Aiven CLI", {
+      hint: "Install it with: pip install aiven-client",
+    });
+  }
+
+  return avn;
+};
 
 /**
  * Run Aiven CLI command using detected method
  */
-const runAvnCommand = (args: string[], options: any = {}) => {
-  if (!avnCommandConfig) {
-    throw new Error("Aiven CLI not configured");
-  }
+const runAvnCommand = (avn: AvnCli, args: string[], options: RunOptions = {}) =>
+  runCommand(avn.cmd, avn.args(args), options);
 
-  return spawnSync(avnCommandConfig.cmd, avnCommandConfig.args(args), {
-    ...options,
-    shell: true,
+/**
+ * Stand-in for `avn service get --json` output in --dry-run
+ */
+const dryRunServiceJson = (serviceName: string): string =>
+  JSON.stringify({
+    state: "RUNNING",
+    connection_info: {
+      pg_uri: [
+        `postgres://avnadmin:dry-run-password@${serviceName}.aivencloud.com:12345/defaultdb?sslmode=require`,
+      ],
+    },
   });
-};
 
 /**
  * Check if Aiven CLI is installed and offer to install it
  */
 const ensureAivenCli = async (): Promise<boolean> => {
   // Try to detect how to run avn
-  avnCommandConfig = detectAvnCommand();
+  let avn = detectAvnCommand();
 
-  if (!avnCommandConfig) {
+  if (!avn) {
     console.log(
       chalk.yellowBright("\n⚠️  Aiven CLI is not installed or not in PATH.")
     );
@@ -120,15 +136,13 @@ const ensureAivenCli = async (): Promise<boolean> => {
     console.log(chalk.blueBright("\nInstalling Aiven CLI..."));
 
     // Try pip first
-    let install = spawnSync("pip", ["install", "aiven-client"], {
-      shell: true,
+    let install = runCommand("pip", ["install", "aiven-client"], {
       stdio: "inherit",
     });
 
     // If pip fails, try pip3
     if (install.status !== 0) {
-      install = spawnSync("pip3", ["install", "aiven-client"], {
-        shell: true,
+      install = runCommand("pip3", ["install", "aiven-client"], {
         stdio: "inherit",
       });
     }
@@ -147,9 +161,9 @@ const ensureAivenCli = async (): Promise<boolean> => {
     console.log(chalk.greenBright("\n✅ Aiven CLI installed successfully!"));
 
     // Re-detect after installation
-    avnCommandConfig = detectAvnCommand();
+    avn = detectAvnCommand();
 
-    if (!avnCommandConfig) {
+    if (!avn) {
       console.log(
         chalk.red("\n❌ Aiven CLI installed but still not accessible.")
       );
@@ -157,10 +171,10 @@ const ensureAivenCli = async (): Promise<boolean> => {
       return false;
     }
 
-    if (avnCommandConfig.cmd !== "avn") {
+    if (avn.cmd !== "avn") {
       console.log(
         chalk.yellow(
-          `\n⚠️  'avn' command not found in PATH. Using '${avnCommandConfig.cmd} -m aiven.client' instead.`
+          `\n⚠️  'avn' command not found in PATH. Using '${avn.cmd} -m aiven.client' instead.`
         )
       );
     }
@@ -168,11 +182,9 @@ const ensureAivenCli = async (): Promise<boolean> => {
     return true;
   }
 
-  if (avnCommandConfig.cmd !== "avn") {
+  if (avn.cmd !== "avn") {
     console.log(
-      chalk.dim(
-        `Using '${avnCommandConfig.cmd} -m aiven.client' to run Aiven CLI commands.`
-      )
+      chalk.dim(`Using '${avn.cmd} -m aiven.client' to run Aiven CLI commands.`)
     );
   }
 
@@ -184,11 +196,9 @@ const ensureAivenCli = async (): Promise<boolean> => {
  */
 const checkAivenAuth = async (): Promise<boolean> => {
   console.log(chalk.blueBright("\nChecking Aiven authentication..."));
+  const avn = requireAvnCli();
 
-  const authCheck = runAvnCommand(["user", "info"], {
-    encoding: "utf-8",
-    stdio: "pipe",
-  });
+  const authCheck = runAvnCommand(avn, ["user", "info"]);
 
   if (authCheck.status !== 0) {
     console.log(chalk.yellowBright("Not logged in to Aiven."));
@@ -228,7 +238,7 @@ const checkAivenAuth = async (): Promise<boolean> => {
       console.log(chalk.greenBright("✅ Browser opened!\n"));
     }
 
-    const apiToken = await input({
+    const apiToken = await password({
       message: chalk.cyan("Paste your Aiven API token here:"),
       validate: (inputValue: string) => {
         if (!inputValue || inputValue.trim().length === 0) {
@@ -239,8 +249,9 @@ const checkAivenAuth = async (): Promise<boolean> => {
     });
 
     // Authenticate with token
-    const loginResult = runAvnCommand(["user", "login", apiToken.trim()], {
+    const loginResult = runAvnCommand(avn, ["user", "login", apiToken.trim()], {
       stdio: "inherit",
+      secrets: [apiToken.trim()],
     });
 
     if (loginResult.status !== 0) {
@@ -278,17 +289,16 @@ const getAivenClouds = (): Array<{ name: string; value: string }> => {
 /**
  * Get or create Aiven project
  */
-const getAivenProject = async (): Promise<string> => {
+const getAivenProject = async (avn: AvnCli): Promise<string> => {
   console.log(chalk.blueBright("\nFetching Aiven projects..."));
 
-  const projectsResult = runAvnCommand(["project", "list", "--json"], {
-    encoding: "utf-8",
-    stdio: "pipe",
+  const projectsResult = runAvnCommand(avn, ["project", "list", "--json"], {
+    dryRunOutput: JSON.stringify([{ project_name: "dry-run-project" }]),
   });
 
   if (projectsResult.status !== 0) {
     console.log(chalk.red("❌ Failed to fetch projects."));
-    throw new Error("Failed to fetch projects");
+    throw new ProvisioningError("Failed to fetch Aiven projects");
   }
 
   try {
@@ -300,15 +310,13 @@ const getAivenProject = async (): Promise<string> => {
       );
 
       const createResult = runAvnCommand(
+        avn,
         ["project", "create", "zerostarter-project"],
-        {
-          encoding: "utf-8",
-          stdio: "inherit",
-        }
+        { stdio: "inherit" }
       );
 
       if (createResult.status !== 0) {
-        throw new Error("Failed to create project");
+        throw new ProvisioningError("Failed to create Aiven project");
       }
 
       return "zerostarter-project";
@@ -323,10 +331,12 @@ const getAivenProject = async (): Promise<string> => {
     }
 
     // Let user choose from multiple projects
-    const choices: Array<{ name: string; value: string }> = projects.map((p: any) => ({
-      name: p.project_name,
-      value: p.project_name,
-    }));
+    const choices: Array<{ name: string; value: string }> = projects.map(
+      (p: any) => ({
+        name: p.project_name,
+        value: p.project_name,
+      })
+    );
 
     const selectedProject = await select({
       message: chalk.cyan("Select an Aiven project:"),
@@ -344,6 +354,7 @@ const getAivenProject = async (): Promise<string> => {
  * Create Aiven PostgreSQL service
  */
 const createAivenService = async (
+  avn: AvnCli,
   project: string,
   serviceName: string,
   cloud: string
@@ -354,6 +365,7 @@ const createAivenService = async (
 
   // Create service with free plan (hobbyist)
   const createResult = runAvnCommand(
+    avn,
     [
       "service",
       "create",
@@ -367,15 +379,12 @@ const createAivenService = async (
       "--plan",
       "hobbyist", // Free tier
     ],
-    {
-      encoding: "utf-8",
-      stdio: "inherit",
-    }
+    { stdio: "inherit" }
   );
 
   if (createResult.status !== 0) {
     console.log(chalk.red("\n❌ Failed to create Aiven PostgreSQL service."));
-    throw new Error("Service creation failed");
+    throw new ProvisioningError("Service creation failed");
   }
 
   console.log(chalk.greenBright(`\n✅ Service '${serviceName}' created!`));
@@ -391,14 +400,15 @@ const createAivenService = async (
   const maxAttempts = 60; // 5 minutes
 
   while (!isRunning && attempts < maxAttempts) {
-    await new Promise((resolve) => setTimeout(resolve, 5000));
+    // The dry-run status is RUNNING at once
+    if (!isDryRun()) {
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+    }
 
     const statusResult = runAvnCommand(
+      avn,
       ["service", "get", serviceName, "--project", project, "--json"],
-      {
-        encoding: "utf-8",
-        stdio: "pipe",
-      }
+      { dryRunOutput: dryRunServiceJson(serviceName) }
     );
 
     if (statusResult.status === 0) {
@@ -421,7 +431,10 @@ const createAivenService = async (
   if (!isRunning) {
     console.log(chalk.red("\n❌ Service took too long to start."));
     console.log(chalk.yellow("Please check your Aiven console for status."));
-    throw new Error("Service startup timeout");
+    throw new ProvisioningError("Service startup timeout", {
+      created: true,
+      hint: "Check the service status at https://console.aiven.io/",
+    });
   }
 
   console.log(chalk.greenBright("✅ Service is now running!"));
@@ -431,22 +444,21 @@ const createAivenService = async (
  * Get connection string for Aiven service
  */
 const getAivenConnectionString = (
+  avn: AvnCli,
   project: string,
   serviceName: string
 ): string => {
   console.log(chalk.blueBright("\nFetching connection string..."));
 
   const serviceResult = runAvnCommand(
+    avn,
     ["service", "get", serviceName, "--project", project, "--json"],
-    {
-      encoding: "utf-8",
-      stdio: "pipe",
-    }
+    { dryRunOutput: dryRunServiceJson(serviceName) }
   );
 
   if (serviceResult.status !== 0) {
     console.log(chalk.red("❌ Failed to get service details."));
-    throw new Error("Failed to get connection string");
+    throw new ConnectionStringError("Failed to get connection string");
   }
 
   try {
@@ -454,7 +466,7 @@ const getAivenConnectionString = (
     const connectionInfo = service.connection_info;
 
     if (!connectionInfo || !connectionInfo.pg_uri) {
-      throw new Error("Connection info not available");
+      throw new ConnectionStringError("Connection info not available");
     }
 
     return connectionInfo.pg_uri[0]; // Return the first URI
@@ -467,7 +479,7 @@ const getAivenConnectionString = (
 /**
  * Manual setup for Aiven (web-based) - fallback
  */
-const setupAivenManually = async (): Promise<string> => {
+const setupAivenManually = async (options: SetupOptions): Promise<string> => {
   console.log(chalk.blueBright("\n📝 Aiven PostgreSQL Setup\n"));
   console.log(chalk.cyan("Follow these steps to create your database:\n"));
   console.log(chalk.white("1. Click 'Create service' on the page that opens"));
@@ -492,81 +504,39 @@ const setupAivenManually = async (): Promise<string> => {
 
   console.log(chalk.yellow("\n⏳ Waiting for you to create the service...\n"));
 
-  const databaseUrl = await input({
-    message: chalk.cyan("Paste your Service URI here:"),
-    validate: (inputValue: string) => {
-      if (!inputValue || inputValue.trim().length === 0) {
-        return "Connection string cannot be empty";
-      }
-      if (
-        !inputValue.startsWith("postgres://") &&
-        !inputValue.startsWith("postgresql://")
-      ) {
-        return "Invalid PostgreSQL connection string. Should start with postgres:// or postgresql://";
-      }
-      return true;
+  const databaseUrl = await input(
+    {
+      message: chalk.cyan("Paste your Service URI here:"),
+      validate: validateConnectionString,
     },
-  });
+    { value: options.databaseUrl, flag: "--url" }
+  );
 
   return databaseUrl;
 };
 
 /**
- * Main function to set up Aiven PostgreSQL
+ * Pick a project, cloud and service name, then create the service
  */
-export const setupAiven = async (): Promise<string> => {
-  console.log(
-    chalk.magentaBright("\n================ Aiven Setup ================\n")
-  );
-
-  const hasAivenCli = await ensureAivenCli();
-
-  if (!hasAivenCli) {
-    console.log(chalk.blueBright("\n🔄 Switching to manual setup...\n"));
-
-    const databaseUrl = await setupAivenManually();
-
-    console.log(
-      chalk.greenBright(`\n✅ Aiven PostgreSQL configured successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
-
-    return databaseUrl;
-  }
-
-  const isAuthenticated = await checkAivenAuth();
-
-  if (!isAuthenticated) {
-    console.log(
-      chalk.yellow(
-        "\n⚠️  Switching to manual setup due to authentication issues...\n"
-      )
-    );
-
-    const databaseUrl = await setupAivenManually();
-
-    console.log(
-      chalk.greenBright(`\n✅ Aiven PostgreSQL configured successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
+const provisionAiven = async (
+  options: SetupOptions
+): Promise<ProvisionedDatabase> => {
+  const avn = requireAvnCli();
+  const project = await getAivenProject(avn);
 
-    return databaseUrl;
-  }
-
-  try {
-    const project = await getAivenProject();
+  const clouds = getAivenClouds();
 
-    const clouds = getAivenClouds();
-
-    const selectedCloud = await select({
+  const selectedCloud = await select(
+    {
       message: chalk.cyan("Choose your Aiven cloud region:"),
       default: "google-us-central1",
       choices: clouds,
-    });
+    },
+    { value: options.region, flag: "--region" }
+  );
 
-    const serviceName = await input({
+  const serviceName = await input(
+    {
       message: chalk.cyan("Enter a name for your database service:"),
       default: "zerostarter-db",
       validate: (inputValue: string) => {
@@ -578,32 +548,72 @@ export const setupAiven = async (): Promise<string> => {
         }
         return true;
       },
-    });
+    },
+    { value: options.name, flag: "--name" }
+  );
 
-    await createAivenService(project, serviceName, selectedCloud);
+  const database = {
+    resource: { project, serviceName },
+    region: selectedCloud,
+  };
 
-    const databaseUrl = getAivenConnectionString(project, serviceName);
+  try {
+    await createAivenService(avn, project, serviceName, selectedCloud);
+  } catch (error) {
+    // A service that never started is terminated rather than left running
+    if (error instanceof ProvisioningError && error.created) {
+      await teardownAfterFailure(aivenProvider, [database], error);
+    }
+    throw error;
+  }
 
-    console.log(
-      chalk.greenBright(`\n✅ Aiven PostgreSQL created successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
+  return database;
+};
 
-    return databaseUrl;
-  } catch (error) {
-    console.log(
-      chalk.yellow("\n⚠️  CLI setup failed. Switching to manual setup...\n")
-    );
+/**
+ * Aiven (Managed Cloud Databases) via the avn CLI
+ */
+export const aivenProvider: DatabaseProvider = {
+  id: "aiven",
+  displayName: "Aiven (Managed Cloud Databases)",
+  title: "Aiven",
+
+  checkPrerequisites: ensureAivenCli,
+
+  authenticate: checkAivenAuth,
 
-    const databaseUrl = await setupAivenManually();
+  provision: provisionAiven,
 
+  getConnectionInfo: async (database) => ({
+    databaseUrl: getAivenConnectionString(
+      requireAvnCli(),
+      database.resource.project,
+      database.resource.serviceName
+    ),
+  }),
+
+  teardown: async (database) => {
+    const { project, serviceName } = database.resource;
     console.log(
-      chalk.greenBright(`\n✅ Aiven PostgreSQL configured successfully!`)
+      chalk.blueBright(`\nTerminating Aiven service '${serviceName}'...`)
     );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
 
-    return databaseUrl;
-  }
+    const terminateResult = runAvnCommand(requireAvnCli(), [
+      "service",
+      "terminate",
+      serviceName,
+      "--project",
+      project,
+      "--force",
+    ]);
+
+    if (terminateResult.status !== 0) {
+      throw new Error(`Failed to terminate Aiven service '${serviceName}'`);
+    }
+  },
+
+  setupManually: async (options) => ({
+    resource: {},
+    databaseUrl: await setupAivenManually(options),
+  }),
 };
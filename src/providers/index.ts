@@ -0,0 +1,31 @@
+import { registerProvider } from "./registry";
+import { neonProvider } from "./neon";
+import { supabaseProvider } from "./supabase";
+import { railwayProvider } from "./railway-pg";
+import { aivenProvider } from "./aiven";
+import { renderProvider } from "./render";
+import { vercelProvider } from "./vercel";
+import { localDockerProvider } from "./local-docker";
+import { manualProvider } from "./manual";
+import type { DatabaseProvider } from "./types";
+
+/**
+ * Providers shipped with db-setup, in menu order
+ */
+export const builtInProviders: DatabaseProvider[] = [
+  neonProvider,
+  supabaseProvider,
+  railwayProvider,
+  aivenProvider,
+  renderProvider,
+  vercelProvider,
+  localDockerProvider,
+  manualProvider,
+];
+
+for (const provider of builtInProviders) {
+  registerProvider(provider);
+}
+
+export * from "./registry";
+export * from "./types";
@@ -0,0 +1,46 @@
+import chalk from "chalk";
+import { input } from "../utils/prompts";
+import { validateConnectionString } from "../utils/connection-string";
+import type { SetupOptions } from "../options";
+import {
+  connectionFromProvisioned,
+  type DatabaseProvider,
+  type ProvisionedDatabase,
+} from "./types";
+
+/**
+ * Ask for an existing connection string
+ */
+const promptConnectionString = async (
+  options: SetupOptions
+): Promise<ProvisionedDatabase> => {
+  const databaseUrl = await input(
+    {
+      message: chalk.cyan("Enter your PostgreSQL connection string:"),
+      validate: validateConnectionString,
+    },
+    { value: options.databaseUrl, flag: "--url" }
+  );
+
+  return { resource: {}, databaseUrl };
+};
+
+/**
+ * An existing database the user already has a connection string for
+ */
+export const manualProvider: DatabaseProvider = {
+  id: "manual",
+  displayName: "I already have a DATABASE_URL",
+  title: "Existing Database",
+
+  checkPrerequisites: async () => true,
+
+  authenticate: async () => true,
+
+  provision: promptConnectionString,
+
+  getConnectionInfo: connectionFromProvisioned,
+
+  // Nothing was created, so there is nothing to remove
+  teardown: async () => {},
+};
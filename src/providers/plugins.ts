@@ -0,0 +1,202 @@
+import { existsSync, readdirSync } from "fs";
+import { createRequire } from "module";
+import { join, resolve } from "path";
+import { pathToFileURL } from "url";
+import { SetupError } from "../errors";
+import { warn } from "../utils/output";
+import { registerProvider } from "./registry";
+import {
+  PROVIDER_API_VERSION,
+  type DatabaseProvider,
+  type ProviderPlugin,
+} from "./types";
+
+export const PLUGIN_PACKAGE_PREFIX = "db-setup-provider-";
+
+const REQUIRED_METHODS = [
+  "checkPrerequisites",
+  "authenticate",
+  "provision",
+  "getConnectionInfo",
+  "teardown",
+] as const;
+
+/**
+ * Find db-setup-provider-* packages (scoped or not) in node_modules
+ */
+export const discoverPluginPackages = (cwd: string): string[] => {
+  const nodeModules = join(cwd, "node_modules");
+  if (!existsSync(nodeModules)) return [];
+
+  const packages: string[] = [];
+
+  for (const entry of readdirSync(nodeModules)) {
+    if (entry.startsWith(PLUGIN_PACKAGE_PREFIX)) {
+      packages.push(entry);
+    } else if (entry.startsWith("@")) {
+      for (const scoped of readdirSync(join(nodeModules, entry))) {
+        if (scoped.startsWith(PLUGIN_PACKAGE_PREFIX)) {
+          packages.push(`${entry}/${scoped}`);
+        }
+      }
+    }
+  }
+
+  return packages.sort();
+};
+
+/**
+ * Resolve a configured plugin (relative path or package name) to a file
+ */
+const resolvePluginPath = (specifier: string, cwd: string): string => {
+  if (specifier.startsWith(".") || specifier.startsWith("/")) {
+    return resolve(cwd, specifier);
+  }
+
+  const projectRequire = createRequire(join(cwd, "package.json"));
+  return projectRequire.resolve(specifier);
+};
+
+/**
+ * Check a plugin's exported provider has every required member
+ */
+const validatePluginProvider = (provider: unknown, source: string): void => {
+  const candidate = provider as Record<string, unknown>;
+
+  if (typeof candidate !== "object" || candidate === null) {
+    throw new Error(
+      `Plugin "${source}" exported a provider that is not an object`
+    );
+  }
+
+  for (const key of ["id", "displayName", "title"]) {
+    if (typeof candidate[key] !== "string" || candidate[key] === "") {
+      throw new Error(`Plugin "${source}" provider is missing "${key}"`);
+    }
+  }
+
+  for (const method of REQUIRED_METHODS) {
+    if (typeof candidate[method] !== "function") {
+      throw new Error(
+        `Plugin "${source}" provider '${candidate.id}' is missing ${method}()`
+      );
+    }
+  }
+};
+
+/**
+ * Re-throw errors from plugin code with the plugin and step that failed.
+ * SetupErrors keep their class (exit code, hint) with the context added to
+ * the message, and a cancelled prompt passes through as it is.
+ */
+const wrapPluginProvider = (
+  provider: DatabaseProvider,
+  source: string
+): DatabaseProvider => {
+  const wrap =
+    <Args extends unknown[], Result>(
+      method: string,
+      fn: (...args: Args) => Promise<Result>
+    ) =>
+    async (...args: Args): Promise<Result> => {
+      try {
+        return await fn.apply(provider, args);
+      } catch (error) {
+        const context = `Provider plugin "${source}" (${provider.id}) failed in ${method}`;
+
+        if (error instanceof Error && error.name === "ExitPromptError") {
+          throw error;
+        }
+        if (error instanceof SetupError) {
+          error.message = `${context}: ${error.message}`;
+          throw error;
+        }
+
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`${context}: ${reason}`, { cause: error });
+      }
+    };
+
+  return {
+    id: provider.id,
+    displayName: provider.displayName,
+    title: provider.title,
+    checkPrerequisites: wrap("checkPrerequisites", provider.checkPrerequisites),
+    authenticate: wrap("authenticate", provider.authenticate),
+    provision: wrap("provision", provider.provision),
+    getConnectionInfo: wrap("getConnectionInfo", provider.getConnectionInfo),
+    teardown: wrap("teardown", provider.teardown),
+    setupManually:
+      provider.setupManually && wrap("setupManually", provider.setupManually),
+    provisionEnvironment:
+      provider.provisionEnvironment &&
+      wrap("provisionEnvironment", provider.provisionEnvironment),
+  };
+};
+
+/**
+ * Import one plugin module and return its validated providers
+ */
+export const loadPlugin = async (
+  specifier: string,
+  cwd: string
+): Promise<DatabaseProvider[]> => {
+  const pluginPath = resolvePluginPath(specifier, cwd);
+  const imported = await import(pathToFileURL(pluginPath).href);
+  const plugin: ProviderPlugin = imported.default ?? imported;
+
+  if (plugin.apiVersion !== PROVIDER_API_VERSION) {
+    throw new Error(
+      `Plugin "${specifier}" targets provider API version ${plugin.apiVersion ?? "(none)"}, ` +
+        `but this db-setup supports version ${PROVIDER_API_VERSION}`
+    );
+  }
+
+  const providers =
+    plugin.providers ?? (plugin.provider ? [plugin.provider] : []);
+
+  if (providers.length === 0) {
+    throw new Error(`Plugin "${specifier}" does not export any providers`);
+  }
+
+  return providers.map((provider) => {
+    validatePluginProvider(provider, specifier);
+    return wrapPluginProvider(provider, specifier);
+  });
+};
+
+/** Plugins already registered, so repeated loads are no-ops */
+const loadedPlugins = new Set<string>();
+
+/**
+ * Load discovered and configured plugins and add their providers to the
+ * menu. A broken plugin is reported and skipped so the built-in providers
+ * keep working.
+ */
+export const loadProviderPlugins = async (
+  configured: string[] = [],
+  cwd = process.cwd()
+): Promise<string[]> => {
+  const specifiers = [
+    ...new Set([...discoverPluginPackages(cwd), ...configured]),
+  ];
+  const loaded: string[] = [];
+
+  for (const specifier of specifiers) {
+    try {
+      const key = resolvePluginPath(specifier, cwd);
+      if (loadedPlugins.has(key)) continue;
+
+      for (const provider of await loadPlugin(specifier, cwd)) {
+        registerProvider(provider);
+        loaded.push(provider.id);
+      }
+      loadedPlugins.add(key);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      warn(`Skipping provider plugin "${specifier}": ${reason}`);
+    }
+  }
+
+  return loaded;
+};
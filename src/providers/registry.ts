@@ -0,0 +1,216 @@
+import chalk from "chalk";
+import type { SetupOptions } from "../options";
+import { isDryRun } from "../utils/exec";
+import { warn } from "../utils/output";
+import { isInteractive } from "../utils/prompts";
+import {
+  AuthenticationError,
+  ConnectionStringError,
+  MissingCliError,
+  ProvisioningError,
+  UserCancelledError,
+  toSetupError,
+} from "../errors";
+import type {
+  ConnectionEndpoints,
+  DatabaseProvider,
+  ProvisionedDatabase,
+} from "./types";
+
+export interface ProviderResult {
+  provider: DatabaseProvider;
+  database: ProvisionedDatabase;
+  databaseUrl: string;
+  endpoints: ConnectionEndpoints;
+  /** Created by provision(), so teardown() may remove it on failure */
+  created: boolean;
+}
+
+const providers = new Map<string, DatabaseProvider>();
+
+/**
+ * Add a provider to the setup menu
+ */
+export const registerProvider = (provider: DatabaseProvider): void => {
+  if (providers.has(provider.id)) {
+    throw new Error(`Provider '${provider.id}' is already registered`);
+  }
+  providers.set(provider.id, provider);
+};
+
+/**
+ * Remove a provider from the setup menu
+ */
+export const unregisterProvider = (id: string): boolean => providers.delete(id);
+
+export const getProvider = (id: string): DatabaseProvider | undefined =>
+  providers.get(id);
+
+/**
+ * Registered providers, in registration order
+ */
+export const listProviders = (): DatabaseProvider[] => [...providers.values()];
+
+/**
+ * "projectId" -> "Project ID", for printing resource identifiers
+ */
+const formatResourceKey = (key: string): string =>
+  key
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/^./, (c) => c.toUpperCase())
+    .replace(/\bId\b/, "ID");
+
+/**
+ * Fall back to the provider's manual flow, or fail with `error` if it has
+ * none, the user cancelled, or nobody could paste a URL into it
+ */
+const switchToManual = async (
+  provider: DatabaseProvider,
+  options: SetupOptions,
+  reason: string,
+  error: unknown
+): Promise<ProvisionedDatabase> => {
+  const setupError = toSetupError(error);
+  if (setupError instanceof UserCancelledError) {
+    throw setupError;
+  }
+
+  if (
+    !provider.setupManually ||
+    (options.databaseUrl === undefined && !isInteractive())
+  ) {
+    throw error;
+  }
+
+  warn(`${reason}. Switching to manual setup...`);
+  return provider.setupManually(options);
+};
+
+/**
+ * Remove the databases a run created, in the order given, once a later
+ * step has failed, so a failed run does not leave them behind. Best
+ * effort: a failing teardown is reported and the original error is left
+ * to propagate. Providers that cannot delete a database print where to do
+ * so instead.
+ */
+export const teardownAfterFailure = async (
+  provider: DatabaseProvider,
+  databases: ProvisionedDatabase[],
+  error: unknown
+): Promise<void> => {
+  // Nothing was created in a dry run
+  if (isDryRun()) return;
+
+  const reason = error instanceof Error ? error.message : String(error);
+  warn(
+    `Setup failed after the ${provider.title} database was created (${reason})`
+  );
+
+  for (const database of databases) {
+    try {
+      await provider.teardown(database);
+    } catch (teardownError) {
+      const detail =
+        teardownError instanceof Error
+          ? teardownError.message
+          : String(teardownError);
+      warn(
+        `Could not remove the ${provider.title} database: ${detail}. Delete it yourself.`
+      );
+    }
+  }
+};
+
+/**
+ * Run a provider through prerequisites, auth, provisioning and connection
+ */
+export const runProvider = async (
+  provider: DatabaseProvider,
+  options: SetupOptions
+): Promise<ProviderResult> => {
+  console.log(
+    chalk.magentaBright(
+      `\n================ ${provider.title} Setup ================\n`
+    )
+  );
+
+  let database: ProvisionedDatabase;
+  let created = false;
+
+  if (!(await provider.checkPrerequisites(options))) {
+    database = await switchToManual(
+      provider,
+      options,
+      `${provider.title} CLI is not available`,
+      new MissingCliError(`${provider.title} CLI`)
+    );
+  } else if (!(await provider.authenticate(options))) {
+    database = await switchToManual(
+      provider,
+      options,
+      `Could not authenticate with ${provider.title}`,
+      new AuthenticationError(`Could not authenticate with ${provider.title}`)
+    );
+  } else {
+    let provisioned: ProvisionedDatabase | undefined;
+    try {
+      provisioned = await provider.provision(options);
+      if (!provisioned.databaseUrl) {
+        const info = await provider.getConnectionInfo(provisioned, options);
+        provisioned.databaseUrl = info.databaseUrl;
+        provisioned.endpoints ??= info.endpoints;
+      }
+      database = provisioned;
+      created = true;
+    } catch (error) {
+      // Once something exists, falling back to the manual flow would
+      // leave it behind next to whatever the user sets up there
+      if (provisioned) {
+        await teardownAfterFailure(provider, [provisioned], error);
+        throw error;
+      }
+      if (error instanceof ProvisioningError && error.created) {
+        throw error;
+      }
+      database = await switchToManual(
+        provider,
+        options,
+        `CLI setup failed: ${error instanceof Error ? error.message : String(error)}`,
+        error
+      );
+    }
+  }
+
+  const { databaseUrl, endpoints = {} } = database;
+
+  if (!databaseUrl) {
+    const error = new ConnectionStringError(
+      `${provider.title} did not return a connection string`
+    );
+    if (created) {
+      await teardownAfterFailure(provider, [database], error);
+    }
+    throw error;
+  }
+
+  console.log(
+    chalk.greenBright(`\n✅ ${provider.title} configured successfully!`)
+  );
+  for (const [key, value] of Object.entries(database.resource)) {
+    console.log(chalk.greenBright(`${formatResourceKey(key)}: ${value}`));
+  }
+  if (database.region) {
+    console.log(chalk.greenBright(`Region: ${database.region}`));
+  }
+  console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
+  if (Object.keys(endpoints).length > 1) {
+    console.log(chalk.greenBright("Endpoints:"));
+    for (const [kind, url] of Object.entries(endpoints)) {
+      console.log(chalk.greenBright(`  ${kind}: ${url}`));
+    }
+    console.log();
+  }
+  console.log(chalk.yellow("--------------------------------"));
+
+  return { provider, database, databaseUrl, endpoints, created };
+};
@@ -1,6 +1,14 @@
-import { spawnSync } from "child_process";
-import { select, input, confirm } from "@inquirer/prompts";
 import chalk from "chalk";
+import { isDryRun, runCommand } from "../utils/exec";
+import { ProvisioningError } from "../errors";
+import { select, input, confirm } from "../utils/prompts";
+import { validateConnectionString } from "../utils/connection-string";
+import type { SetupOptions } from "../options";
+import {
+  connectionFromProvisioned,
+  type DatabaseProvider,
+  type ProvisionedDatabase,
+} from "./types";
 
 /**
  * Open URL in default browser
@@ -17,18 +25,14 @@ const openBrowser = (url: string): void => {
     command = "xdg-open";
   }
 
-  spawnSync(command, [url], { shell: true, stdio: "ignore" });
+  runCommand(command, [url], { stdio: "ignore" });
 };
 
 /**
  * Check if Render CLI is installed and offer to install it
  */
 const ensureRenderCli = async (): Promise<boolean> => {
-  const check = spawnSync("render", ["--version"], {
-    encoding: "utf-8",
-    shell: true,
-    stdio: "pipe",
-  });
+  const check = runCommand("render", ["--version"]);
 
   if (check.status !== 0) {
     console.log(chalk.yellowBright("\n⚠️  Render CLI is not installed."));
@@ -44,8 +48,7 @@ const ensureRenderCli = async (): Promise<boolean> => {
 
     console.log(chalk.blueBright("\nInstalling Render CLI..."));
     // Fixed package name: it's just "render" not "@render-cli/cli"
-    const install = spawnSync("npm", ["install", "-g", "render"], {
-      shell: true,
+    const install = runCommand("npm", ["install", "-g", "render"], {
       stdio: "inherit",
     });
 
@@ -70,7 +73,7 @@ const ensureRenderCli = async (): Promise<boolean> => {
 /**
  * Manual setup for Render (web-based)
  */
-const setupRenderManually = async (): Promise<string> => {
+const setupRenderManually = async (options: SetupOptions): Promise<string> => {
   console.log(chalk.blueBright("\n📝 Manual Render PostgreSQL Setup\n"));
   console.log(chalk.cyan("Follow these steps to create your database:\n"));
   console.log(
@@ -99,21 +102,13 @@ const setupRenderManually = async (): Promise<string> => {
 
   console.log(chalk.yellow("\n⏳ Waiting for you to create the database...\n"));
 
-  const databaseUrl = await input({
-    message: chalk.cyan("Paste your External Database URL here:"),
-    validate: (inputValue: string) => {
-      if (!inputValue || inputValue.trim().length === 0) {
-        return "Connection string cannot be empty";
-      }
-      if (
-        !inputValue.startsWith("postgres://") &&
-        !inputValue.startsWith("postgresql://")
-      ) {
-        return "Invalid PostgreSQL connection string. Should start with postgres:// or postgresql://";
-      }
-      return true;
+  const databaseUrl = await input(
+    {
+      message: chalk.cyan("Paste your External Database URL here:"),
+      validate: validateConnectionString,
     },
-  });
+    { value: options.databaseUrl, flag: "--url" }
+  );
 
   return databaseUrl;
 };
@@ -124,21 +119,14 @@ const setupRenderManually = async (): Promise<string> => {
 const checkRenderAuth = async (): Promise<boolean> => {
   console.log(chalk.blueBright("\nChecking Render authentication..."));
 
-  const authCheck = spawnSync("render", ["whoami"], {
-    encoding: "utf-8",
-    shell: true,
-    stdio: "pipe",
-  });
+  const authCheck = runCommand("render", ["whoami"]);
 
   if (authCheck.status !== 0) {
     console.log(chalk.yellowBright("Not logged in to Render."));
     console.log(chalk.blueBright("\nTo authenticate with Render:"));
     console.log(chalk.cyan("Opening authentication flow...\n"));
 
-    const loginResult = spawnSync("render", ["login"], {
-      stdio: "inherit",
-      shell: true,
-    });
+    const loginResult = runCommand("render", ["login"], { stdio: "inherit" });
 
     if (loginResult.status !== 0) {
       console.log(chalk.red("\n❌ Authentication failed."));
@@ -172,13 +160,14 @@ const getRenderRegions = (): Array<{ name: string; value: string }> => {
  */
 const createRenderDatabaseCLI = async (
   name: string,
-  region: string
+  region: string,
+  options: SetupOptions
 ): Promise<string> => {
   console.log(
     chalk.blueBright(`\nCreating Render PostgreSQL database '${name}'...`)
   );
 
-  const createResult = spawnSync(
+  const createResult = runCommand(
     "render",
     [
       "services",
@@ -191,16 +180,12 @@ const createRenderDatabaseCLI = async (
       "--plan",
       "free",
     ],
-    {
-      encoding: "utf-8",
-      shell: true,
-      stdio: "inherit",
-    }
+    { stdio: "inherit" }
   );
 
   if (createResult.status !== 0) {
     console.error(chalk.red("\n❌ Failed to create Render database."));
-    throw new Error("Database creation failed");
+    throw new ProvisioningError("Database creation failed");
   }
 
   console.log(
@@ -212,8 +197,10 @@ const createRenderDatabaseCLI = async (
     chalk.dim("You can also check status at: https://dashboard.render.com\n")
   );
 
-  // Give it some time to provision
-  await new Promise((resolve) => setTimeout(resolve, 10000));
+  // Give it some time to provision (nothing was created in a dry run)
+  if (!isDryRun()) {
+    await new Promise((resolve) => setTimeout(resolve, 10000));
+  }
 
   // Get the connection string
   console.log(chalk.blueBright("\nFetching connection string..."));
@@ -224,110 +211,90 @@ const createRenderDatabaseCLI = async (
   );
   console.log(chalk.cyan("https://dashboard.render.com\n"));
 
-  const databaseUrl = await input({
-    message: chalk.cyan("Paste your External Database URL:"),
-    validate: (inputValue: string) => {
-      if (!inputValue || !inputValue.startsWith("postgres")) {
-        return "Invalid PostgreSQL connection string";
-      }
-      return true;
+  const databaseUrl = await input(
+    {
+      message: chalk.cyan("Paste your External Database URL:"),
+      validate: validateConnectionString,
     },
-  });
+    { value: options.databaseUrl, flag: "--url" }
+  );
 
   return databaseUrl;
 };
 
 /**
- * Main function to set up Render PostgreSQL
+ * Pick a region and name, then create the database
  */
-export const setupRender = async (): Promise<string> => {
-  console.log(
-    chalk.magentaBright(
-      "\n================ Render PostgreSQL Setup ================\n"
-    )
-  );
-
-  // Check if CLI is installed
-  const hasRenderCli = await ensureRenderCli();
-
-  if (!hasRenderCli) {
-    // Fallback to manual setup
-    console.log(chalk.blueBright("\n🔄 Switching to manual setup...\n"));
-    const databaseUrl = await setupRenderManually();
-
-    console.log(
-      chalk.greenBright(`\n✅ Render PostgreSQL configured successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
-
-    return databaseUrl;
-  }
-
-  // Check authentication
-  const isAuthenticated = await checkRenderAuth();
+const provisionRender = async (
+  options: SetupOptions
+): Promise<ProvisionedDatabase> => {
+  const regions = getRenderRegions();
 
-  if (!isAuthenticated) {
-    console.log(
-      chalk.yellow(
-        "\n⚠️  Switching to manual setup due to authentication issues...\n"
-      )
-    );
-    const databaseUrl = await setupRenderManually();
+  const selectedRegion = await select(
+    {
+      message: chalk.cyan("Choose your Render region:"),
+      default: "oregon",
+      choices: regions,
+    },
+    { value: options.region, flag: "--region" }
+  );
 
-    console.log(
-      chalk.greenBright(`\n✅ Render PostgreSQL configured successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
+  const dbName = await input(
+    {
+      message: chalk.cyan("Enter a name for your database:"),
+      default: "zerostarter-db",
+      validate: (inputValue: string) => {
+        if (!inputValue || inputValue.trim().length === 0) {
+          return "Database name cannot be empty";
+        }
+        if (!/^[a-z0-9-]+$/.test(inputValue)) {
+          return "Database name must contain only lowercase letters, numbers, and hyphens";
+        }
+        return true;
+      },
+    },
+    { value: options.name, flag: "--name" }
+  );
 
-    return databaseUrl;
-  }
+  const databaseUrl = await createRenderDatabaseCLI(
+    dbName,
+    selectedRegion,
+    options
+  );
 
-  const regions = getRenderRegions();
+  return {
+    resource: { databaseName: dbName },
+    region: selectedRegion,
+    databaseUrl,
+  };
+};
 
-  const selectedRegion = await select({
-    message: chalk.cyan("Choose your Render region:"),
-    default: "oregon",
-    choices: regions,
-  });
+/**
+ * Render (Cloud Hosting Platform) via the render CLI
+ */
+export const renderProvider: DatabaseProvider = {
+  id: "render",
+  displayName: "Render (Cloud Hosting Platform)",
+  title: "Render PostgreSQL",
 
-  const dbName = await input({
-    message: chalk.cyan("Enter a name for your database:"),
-    default: "zerostarter-db",
-    validate: (inputValue: string) => {
-      if (!inputValue || inputValue.trim().length === 0) {
-        return "Database name cannot be empty";
-      }
-      if (!/^[a-z0-9-]+$/.test(inputValue)) {
-        return "Database name must contain only lowercase letters, numbers, and hyphens";
-      }
-      return true;
-    },
-  });
+  checkPrerequisites: ensureRenderCli,
 
-  try {
-    const databaseUrl = await createRenderDatabaseCLI(dbName, selectedRegion);
+  authenticate: checkRenderAuth,
 
-    console.log(
-      chalk.greenBright(`\n✅ Render PostgreSQL created successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
+  provision: provisionRender,
 
-    return databaseUrl;
-  } catch (error) {
-    console.log(
-      chalk.yellow("\n⚠️  CLI setup failed. Switching to manual setup...\n")
-    );
-    const databaseUrl = await setupRenderManually();
+  getConnectionInfo: connectionFromProvisioned,
 
+  teardown: async (database) => {
     console.log(
-      chalk.greenBright(`\n✅ Render PostgreSQL configured successfully!`)
+      chalk.yellow(
+        `\nDelete '${database.resource.databaseName}' from the Render dashboard: https://dashboard.render.com`
+      )
     );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
+  },
 
-    return databaseUrl;
-  }
+  setupManually: async (options) => ({
+    resource: {},
+    databaseUrl: await setupRenderManually(options),
+  }),
 };
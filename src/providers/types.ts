@@ -0,0 +1,116 @@
+import type { SetupOptions } from "../options";
+import { ConnectionStringError } from "../errors";
+
+/**
+ * Bumped whenever DatabaseProvider changes incompatibly; plugins declare
+ * the version they were written against
+ */
+export const PROVIDER_API_VERSION = 1;
+
+/**
+ * Ways of reaching the same database: through the provider's connection
+ * pooler, straight to PostgreSQL (needed for migrations), over the
+ * provider's private network, or from anywhere. `prisma` is the pooled
+ * URL with the settings Prisma needs, for providers that hand one out.
+ */
+export type EndpointKind =
+  "pooled" | "direct" | "internal" | "public" | "prisma";
+
+export const ENDPOINT_KINDS: EndpointKind[] = [
+  "pooled",
+  "direct",
+  "internal",
+  "public",
+  "prisma",
+];
+
+/** Connection string per endpoint, for the endpoints a provider has */
+export type ConnectionEndpoints = Partial<Record<EndpointKind, string>>;
+
+/**
+ * A database created (or picked) by a provider
+ */
+export interface ProvisionedDatabase {
+  /** Provider-specific identifiers, e.g. { projectId } or { containerName } */
+  resource: Record<string, string>;
+  region?: string;
+  /** Password generated by the provider flow, when it chose one */
+  password?: string;
+  /** Set when the flow already produced a connection string (e.g. pasted) */
+  databaseUrl?: string;
+  /** Every endpoint the flow found, when there is more than one */
+  endpoints?: ConnectionEndpoints;
+}
+
+export interface ConnectionInfo {
+  /** The URL verified and written when no endpoints are mapped */
+  databaseUrl: string;
+  endpoints?: ConnectionEndpoints;
+}
+
+/**
+ * A PostgreSQL provider offered in the setup menu
+ */
+export interface DatabaseProvider {
+  /** Value used for --provider and in config files */
+  id: string;
+  /** Label shown in the provider menu */
+  displayName: string;
+  /** Short name used in headings and messages */
+  title: string;
+
+  /** Make sure the provider CLI is installed (may offer to install it) */
+  checkPrerequisites(options: SetupOptions): Promise<boolean>;
+  /** Make sure the user is logged in to the provider */
+  authenticate(options: SetupOptions): Promise<boolean>;
+  /** Create the database */
+  provision(options: SetupOptions): Promise<ProvisionedDatabase>;
+  /** Fetch the connection string for a provisioned database */
+  getConnectionInfo(
+    database: ProvisionedDatabase,
+    options: SetupOptions
+  ): Promise<ConnectionInfo>;
+  /**
+   * Delete a provisioned database. Called (best effort) when a later step
+   * fails: fetching the connection string, the connection check or
+   * writing the env files. Databases from provisionEnvironment are passed
+   * in first and should only lose their branch, database or schema.
+   */
+  teardown(database: ProvisionedDatabase): Promise<void>;
+
+  /**
+   * Create, or reuse if it exists, a separate database for another
+   * environment next to `database` (a branch, a second database, a
+   * schema). Its connection string comes from getConnectionInfo unless
+   * the result already has one.
+   */
+  provisionEnvironment?(
+    database: ProvisionedDatabase,
+    environment: string,
+    options: SetupOptions
+  ): Promise<ProvisionedDatabase>;
+
+  /** Browser-based fallback used when the CLI flow is unavailable or fails */
+  setupManually?(options: SetupOptions): Promise<ProvisionedDatabase>;
+}
+
+/**
+ * What a db-setup-provider-* module exports (directly or as default)
+ */
+export interface ProviderPlugin {
+  apiVersion: number;
+  provider?: DatabaseProvider;
+  providers?: DatabaseProvider[];
+}
+
+/**
+ * Connection info for flows that already produced the connection string
+ */
+export const connectionFromProvisioned = async (
+  database: ProvisionedDatabase
+): Promise<ConnectionInfo> => {
+  if (!database.databaseUrl) {
+    throw new ConnectionStringError("No connection string was provided");
+  }
+  return { databaseUrl: database.databaseUrl, endpoints: database.endpoints };
+};
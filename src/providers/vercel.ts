@@ -1,6 +1,15 @@
-import { spawnSync } from "child_process";
-import { input, confirm } from "@inquirer/prompts";
 import chalk from "chalk";
+import { isDryRun, runCommand } from "../utils/exec";
+import { ProvisioningError } from "../errors";
+import { input, confirm } from "../utils/prompts";
+import { validateConnectionString } from "../utils/connection-string";
+import { getEnvValue, parseEnv } from "../utils/dotenv";
+import type { SetupOptions } from "../options";
+import {
+  connectionFromProvisioned,
+  type DatabaseProvider,
+  type ProvisionedDatabase,
+} from "./types";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
@@ -20,18 +29,14 @@ const openBrowser = (url: string): void => {
     command = "xdg-open";
   }
 
-  spawnSync(command, [url], { shell: true, stdio: "ignore" });
+  runCommand(command, [url], { stdio: "ignore" });
 };
 
 /**
  * Check if Vercel CLI is installed and offer to install it
  */
 const ensureVercelCli = async (): Promise<boolean> => {
-  const check = spawnSync("vercel", ["--version"], {
-    encoding: "utf-8",
-    shell: true,
-    stdio: "pipe",
-  });
+  const check = runCommand("vercel", ["--version"]);
 
   if (check.status !== 0) {
     console.log(chalk.yellowBright("\n⚠️  Vercel CLI is not installed."));
@@ -46,8 +51,7 @@ const ensureVercelCli = async (): Promise<boolean> => {
     }
 
     console.log(chalk.blueBright("\nInstalling Vercel CLI..."));
-    const install = spawnSync("npm", ["install", "-g", "vercel"], {
-      shell: true,
+    const install = runCommand("npm", ["install", "-g", "vercel"], {
       stdio: "inherit",
     });
 
@@ -73,21 +77,14 @@ const ensureVercelCli = async (): Promise<boolean> => {
 const checkVercelAuth = (): boolean => {
   console.log(chalk.blueBright("\nChecking Vercel authentication..."));
 
-  const authCheck = spawnSync("vercel", ["whoami"], {
-    encoding: "utf-8",
-    shell: true,
-    stdio: "pipe",
-  });
+  const authCheck = runCommand("vercel", ["whoami"]);
 
   if (authCheck.status !== 0) {
     console.log(chalk.yellowBright("Not logged in to Vercel."));
     console.log(chalk.blueBright("\nTo authenticate with Vercel:"));
     console.log(chalk.cyan("Opening authentication flow...\n"));
 
-    const loginResult = spawnSync("vercel", ["login"], {
-      stdio: "inherit",
-      shell: true,
-    });
+    const loginResult = runCommand("vercel", ["login"], { stdio: "inherit" });
 
     if (loginResult.status !== 0) {
       console.log(chalk.red("\n❌ Authentication failed."));
@@ -185,9 +182,7 @@ const setupVercelProject = (tempDir: string): boolean => {
   );
 
   // Use standard vercel link (without --repo)
-  const linkResult = spawnSync("vercel", ["link"], {
-    encoding: "utf-8",
-    shell: true,
+  const linkResult = runCommand("vercel", ["link"], {
     stdio: "inherit",
     cwd: tempDir,
   });
@@ -197,6 +192,11 @@ const setupVercelProject = (tempDir: string): boolean => {
     return false;
   }
 
+  // Nothing was linked, so there is no .vercel/project.json to verify
+  if (isDryRun()) {
+    return true;
+  }
+
   // Wait a moment for files to be written
   console.log(chalk.dim("Waiting for project files to be created..."));
   const waitTime = 2000; // 2 seconds
@@ -268,8 +268,9 @@ const setupVercelProject = (tempDir: string): boolean => {
  */
 const createVercelDatabase = async (
   name: string,
-  tempDir: string
-): Promise<string> => {
+  tempDir: string,
+  options: SetupOptions
+): Promise<Pick<ProvisionedDatabase, "databaseUrl" | "endpoints">> => {
   console.log(
     chalk.blueBright(`\nCreating Vercel Postgres database '${name}'...`)
   );
@@ -278,16 +279,14 @@ const createVercelDatabase = async (
   );
 
   // Run from the tempDir where .vercel/project.json exists
-  const createResult = spawnSync("vercel", ["postgres", "create"], {
-    encoding: "utf-8",
-    shell: true,
+  const createResult = runCommand("vercel", ["postgres", "create"], {
     stdio: "inherit",
     cwd: tempDir,
   });
 
   if (createResult.status !== 0) {
     console.error(chalk.red("\n❌ Failed to create Vercel Postgres database."));
-    throw new Error("Database creation failed");
+    throw new ProvisioningError("Database creation failed");
   }
 
   console.log(chalk.greenBright(`\n✅ Database created!`));
@@ -295,14 +294,17 @@ const createVercelDatabase = async (
   // Get connection string
   console.log(chalk.blueBright("\nFetching connection string..."));
 
+  if (isDryRun()) {
+    return {
+      databaseUrl: `postgres://default:dry-run-password@${name}.postgres.vercel-storage.com:5432/verceldb?sslmode=require`,
+    };
+  }
+
   // Wait a moment for the database to be ready
   await new Promise((resolve) => setTimeout(resolve, 5000));
 
   // Try to pull environment variables
-  const envResult = spawnSync("vercel", ["env", "pull", ".env.local"], {
-    encoding: "utf-8",
-    shell: true,
-    stdio: "pipe",
+  const envResult = runCommand("vercel", ["env", "pull", ".env.local"], {
     cwd: tempDir,
   });
 
@@ -310,14 +312,24 @@ const createVercelDatabase = async (
     try {
       const envPath = path.join(tempDir, ".env.local");
       if (fs.existsSync(envPath)) {
-        const envContent = fs.readFileSync(envPath, "utf-8");
+        const pulled = parseEnv(fs.readFileSync(envPath, "utf-8"));
 
-        // Look for POSTGRES_URL
-        const postgresUrlMatch = envContent.match(/POSTGRES_URL="?([^"\n]+)"?/);
+        // POSTGRES_URL goes through Vercel's pooler; POSTGRES_PRISMA_URL
+        // is the same with the settings Prisma needs there
+        const pooled = getEnvValue(pulled, "POSTGRES_URL");
+        const direct = getEnvValue(pulled, "POSTGRES_URL_NON_POOLING");
+        const prisma = getEnvValue(pulled, "POSTGRES_PRISMA_URL");
 
-        if (postgresUrlMatch && postgresUrlMatch[1]) {
+        if (pooled) {
           console.log(chalk.greenBright("✅ Connection string retrieved!"));
-          return postgresUrlMatch[1];
+          return {
+            databaseUrl: pooled,
+            endpoints: {
+              pooled,
+              ...(direct && { direct }),
+              ...(prisma && { prisma }),
+            },
+          };
         }
       }
     } catch (error) {
@@ -345,23 +357,21 @@ const createVercelDatabase = async (
     console.log(chalk.greenBright("✅ Browser opened!\n"));
   }
 
-  const databaseUrl = await input({
-    message: chalk.cyan("Paste your POSTGRES_URL here:"),
-    validate: (inputValue: string) => {
-      if (!inputValue || !inputValue.startsWith("postgres")) {
-        return "Invalid PostgreSQL connection string";
-      }
-      return true;
+  const databaseUrl = await input(
+    {
+      message: chalk.cyan("Paste your POSTGRES_URL here:"),
+      validate: validateConnectionString,
     },
-  });
+    { value: options.databaseUrl, flag: "--url" }
+  );
 
-  return databaseUrl;
+  return { databaseUrl };
 };
 
 /**
  * Manual setup for Vercel (web-based) - fallback only
  */
-const setupVercelManually = async (): Promise<string> => {
+const setupVercelManually = async (options: SetupOptions): Promise<string> => {
   console.log(chalk.blueBright("\n📝 Vercel Postgres Setup\n"));
   console.log(chalk.cyan("Follow these steps to create your database:\n"));
   console.log(chalk.white("1. Click 'Create Database' on the page that opens"));
@@ -385,134 +395,90 @@ const setupVercelManually = async (): Promise<string> => {
 
   console.log(chalk.yellow("\n⏳ Waiting for you to create the database...\n"));
 
-  const databaseUrl = await input({
-    message: chalk.cyan("Paste your POSTGRES_URL here:"),
-    validate: (inputValue: string) => {
-      if (!inputValue || inputValue.trim().length === 0) {
-        return "Connection string cannot be empty";
-      }
-      if (
-        !inputValue.startsWith("postgres://") &&
-        !inputValue.startsWith("postgresql://")
-      ) {
-        return "Invalid PostgreSQL connection string. Should start with postgres:// or postgresql://";
-      }
-      return true;
+  const databaseUrl = await input(
+    {
+      message: chalk.cyan("Paste your POSTGRES_URL here:"),
+      validate: validateConnectionString,
     },
-  });
+    { value: options.databaseUrl, flag: "--url" }
+  );
 
   return databaseUrl;
 };
 
 /**
- * Main function to set up Vercel Postgres
+ * Link a throwaway Next.js project and create the database from it
  */
-export const setupVercel = async (): Promise<string> => {
-  console.log(
-    chalk.magentaBright(
-      "\n================ Vercel Postgres Setup ================\n"
-    )
-  );
-
-  const hasVercelCli = await ensureVercelCli();
-
-  if (!hasVercelCli) {
-    console.log(chalk.blueBright("\n🔄 Switching to manual setup...\n"));
-
-    const databaseUrl = await setupVercelManually();
-
-    console.log(
-      chalk.greenBright(`\n✅ Vercel Postgres configured successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
-
-    return databaseUrl;
-  }
-
-  const isAuthenticated = checkVercelAuth();
-
-  if (!isAuthenticated) {
-    console.log(
-      chalk.yellow(
-        "\n⚠️  Switching to manual setup due to authentication issues...\n"
-      )
-    );
-
-    const databaseUrl = await setupVercelManually();
-
-    console.log(
-      chalk.greenBright(`\n✅ Vercel Postgres configured successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
-
-    return databaseUrl;
-  }
-
+const provisionVercel = async (
+  options: SetupOptions
+): Promise<ProvisionedDatabase> => {
   // Create temporary Next.js project in OS temp directory
   console.log(
     chalk.blueBright("\nCreating temporary Next.js project structure...")
   );
 
-  let tempDir: string | null = null;
+  const tempDir = createTempNextJsProject();
 
   try {
-    tempDir = createTempNextJsProject();
-
     // Link to Vercel project
     const projectLinked = setupVercelProject(tempDir);
 
     if (!projectLinked) {
-      throw new Error("Project linking failed or incomplete");
+      throw new ProvisioningError("Project linking failed or incomplete");
     }
 
-    const dbName = await input({
-      message: chalk.cyan("Enter a name for your database:"),
-      default: "zerostarter-db",
-      validate: (inputValue: string) => {
-        if (!inputValue || inputValue.trim().length === 0) {
-          return "Database name cannot be empty";
-        }
-        if (!/^[a-z0-9-_]+$/.test(inputValue)) {
-          return "Database name must contain only lowercase letters, numbers, hyphens, and underscores";
-        }
-        return true;
+    const dbName = await input(
+      {
+        message: chalk.cyan("Enter a name for your database:"),
+        default: "zerostarter-db",
+        validate: (inputValue: string) => {
+          if (!inputValue || inputValue.trim().length === 0) {
+            return "Database name cannot be empty";
+          }
+          if (!/^[a-z0-9-_]+$/.test(inputValue)) {
+            return "Database name must contain only lowercase letters, numbers, hyphens, and underscores";
+          }
+          return true;
+        },
       },
-    });
+      { value: options.name, flag: "--name" }
+    );
 
-    const databaseUrl = await createVercelDatabase(dbName, tempDir);
+    const connection = await createVercelDatabase(dbName, tempDir, options);
 
+    return { resource: { databaseName: dbName }, ...connection };
+  } finally {
     // Clean up temp project
-    if (tempDir) {
-      cleanupTempProject(tempDir);
-    }
+    cleanupTempProject(tempDir);
+  }
+};
 
-    console.log(
-      chalk.greenBright(`\n✅ Vercel Postgres created successfully!`)
-    );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
+/**
+ * Vercel Postgres via the vercel CLI
+ */
+export const vercelProvider: DatabaseProvider = {
+  id: "vercel",
+  displayName: "Vercel Postgres (Serverless PostgreSQL)",
+  title: "Vercel Postgres",
 
-    return databaseUrl;
-  } catch (error) {
-    // Clean up temp project on error
-    if (tempDir) {
-      cleanupTempProject(tempDir);
-    }
+  checkPrerequisites: ensureVercelCli,
 
-    console.log(
-      chalk.yellow("\n⚠️  CLI setup failed. Switching to manual setup...\n")
-    );
+  authenticate: async () => checkVercelAuth(),
+
+  provision: provisionVercel,
 
-    const databaseUrl = await setupVercelManually();
+  getConnectionInfo: connectionFromProvisioned,
 
+  teardown: async (database) => {
     console.log(
-      chalk.greenBright(`\n✅ Vercel Postgres configured successfully!`)
+      chalk.yellow(
+        `\nDelete '${database.resource.databaseName}' from the Vercel dashboard: https://vercel.com/dashboard/stores`
+      )
     );
-    console.log(chalk.greenBright(`\nYour DATABASE_URL is:\n${databaseUrl}\n`));
-    console.log(chalk.yellow("--------------------------------"));
+  },
 
-    return databaseUrl;
-  }
+  setupManually: async (options) => ({
+    resource: {},
+    databaseUrl: await setupVercelManually(options),
+  }),
 };
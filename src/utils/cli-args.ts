@@ -0,0 +1,135 @@
+import { parseArgs } from "util";
+import type { SetupOptions } from "../options";
+
+export interface CliArgs {
+  options: SetupOptions;
+  configPath?: string;
+  yes: boolean;
+  json: boolean;
+  dryRun: boolean;
+  showSecrets: boolean;
+  help: boolean;
+}
+
+export const HELP_TEXT = `Usage: db-setup [options]
+       db-setup format <connection-string> [--format <id>]
+       db-setup restore [env-file] [--backup <id>]
+       db-setup env <decrypt|edit|loader> [env-file]
+
+Commands:
+  format               Print a connection string in other driver formats
+  restore              Put back a previous version of an env file
+  env                  Decrypt or edit an encrypted env file, or print a loader for it
+
+Options:
+  --provider <id>      neon, supabase, railway, aiven, render, vercel, local, manual, later
+  --region <region>    Provider region (e.g. aws-eu-central-1)
+  --name <name>        Project, service, database or container name
+  --url <url>          Connection string for --provider manual or a pasted-URL step
+  --env-path <path>    .env file to write (e.g. apps/api/.env); repeatable
+  --workspace <dir|name>
+                       Monorepo package whose env file gets the variables; repeatable
+  --environment <name[=path]>
+                       Separate database per environment, written to .env.<name>; repeatable
+  --var <name>         Environment variable name (e.g. DATABASE_URL)
+  --preset <id>        Write the provider's endpoints for prisma, drizzle or pg
+  --endpoint <VAR=kind>
+                       Write the pooled, direct, internal, public or prisma URL to VAR; repeatable
+  --pg-vars <mode>     Write PGHOST, PGPORT, ...: none, also (with the URL) or only
+  --pg-prefix <prefix> Use this instead of "PG" in those names (e.g. DB_)
+  --format <id[=VAR]>  Also write jdbc, libpq, sqlalchemy, npgsql or pgx; repeatable
+  --config <path>      Config file to use instead of db-setup.config.json
+  --json               Print one JSON result object instead of progress output
+  --dry-run            Print the commands and .env changes without running them
+  --skip-verify        Write the connection string without test-connecting first
+  --force              Write credentials even into an env file that git tracks
+  --overwrite          Replace variables the env file already has (not implied by --yes)
+  --keep-backups <n>   Previous versions kept per env file in .db-setup/backups (default 10)
+  --encrypt            Write an encrypted .env.enc instead of a plain env file
+  --key-file <path>    Key for encrypted env files if DB_SETUP_ENV_KEY is unset (default .env.key)
+  --show-secrets       Print passwords and tokens instead of ***
+  -y, --yes            Accept the default answer to every question
+  -h, --help           Show this help
+`;
+
+/**
+ * --keep-backups: a whole number, 0 to keep no backups
+ */
+export const parseKeepBackups = (value: string): number => {
+  const count = Number(value);
+  if (value.trim() === "" || !Number.isInteger(count) || count < 0) {
+    throw new Error(
+      `Invalid value for --keep-backups: ${value}. Expected a whole number (0 keeps none)`
+    );
+  }
+  return count;
+};
+
+/**
+ * Parse command-line flags into setup options
+ */
+export const parseCliArgs = (argv: string[]): CliArgs => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      provider: { type: "string" },
+      region: { type: "string" },
+      name: { type: "string" },
+      url: { type: "string" },
+      "env-path": { type: "string", multiple: true },
+      workspace: { type: "string", multiple: true },
+      environment: { type: "string", multiple: true },
+      var: { type: "string" },
+      preset: { type: "string" },
+      endpoint: { type: "string", multiple: true },
+      "pg-vars": { type: "string" },
+      "pg-prefix": { type: "string" },
+      format: { type: "string", multiple: true },
+      config: { type: "string" },
+      yes: { type: "boolean", short: "y", default: false },
+      json: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      "skip-verify": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      overwrite: { type: "boolean", default: false },
+      "keep-backups": { type: "string" },
+      encrypt: { type: "boolean", default: false },
+      "key-file": { type: "string" },
+      "show-secrets": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  return {
+    options: {
+      provider: values.provider,
+      region: values.region,
+      name: values.name,
+      databaseUrl: values.url,
+      envPaths: values["env-path"],
+      workspaces: values.workspace,
+      environments: values.environment,
+      variableName: values.var,
+      preset: values.preset,
+      endpoints: values.endpoint,
+      pgVariables: values["pg-vars"] as SetupOptions["pgVariables"],
+      pgPrefix: values["pg-prefix"],
+      formats: values.format,
+      verify: values["skip-verify"] ? false : undefined,
+      force: values.force ? true : undefined,
+      overwrite: values.overwrite ? true : undefined,
+      keepBackups:
+        values["keep-backups"] === undefined
+          ? undefined
+          : parseKeepBackups(values["keep-backups"]),
+      encrypt: values.encrypt ? true : undefined,
+      keyFile: values["key-file"],
+    },
+    configPath: values.config,
+    yes: values.yes ?? false,
+    json: values.json ?? false,
+    dryRun: values["dry-run"] ?? false,
+    showSecrets: values["show-secrets"] ?? false,
+    help: values.help ?? false,
+  };
+};
@@ -1,28 +1,159 @@
 #!/usr/bin/env node
 
+import { randomInt } from "crypto";
+
+/**
+ * Character sets a password policy can draw from
+ */
+export const CHARACTER_CLASSES = {
+  lower: "abcdefghijklmnopqrstuvwxyz",
+  upper: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  digits: "0123456789",
+  /** RFC 3986 "unreserved" punctuation, never percent-encoded in a URL */
+  urlSafeSymbols: "-._~",
+} as const;
+
+export type CharacterClass = keyof typeof CHARACTER_CLASSES;
+
+export interface PasswordPolicy {
+  length: number;
+  classes: CharacterClass[];
+  /** At least this many characters from every class (default 1) */
+  minPerClass?: number;
+  /** Extra characters outside the classes, e.g. "!#$" */
+  extraSymbols?: string;
+  /**
+   * Permit characters that must be percent-encoded in a connection URL.
+   * Off by default so generated passwords can be pasted anywhere.
+   */
+  allowUrlEscaping?: boolean;
+}
+
+/**
+ * Defaults for providers that take a password we generate
+ */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  length: 32,
+  classes: ["lower", "upper", "digits"],
+};
+
+/**
+ * Per-provider policies, keyed by provider id
+ */
+export const PASSWORD_POLICIES: Record<string, PasswordPolicy> = {
+  // Passed to the container as POSTGRES_PASSWORD; nothing to escape
+  local: {
+    length: 32,
+    classes: ["lower", "upper", "digits", "urlSafeSymbols"],
+  },
+  // The pooler URL Supabase prints is not percent-encoded, so stay
+  // alphanumeric
+  supabase: {
+    length: 32,
+    classes: ["lower", "upper", "digits"],
+  },
+};
+
+export const getPasswordPolicy = (providerId: string): PasswordPolicy =>
+  PASSWORD_POLICIES[providerId] ?? DEFAULT_PASSWORD_POLICY;
+
 /**
- * Generate alphanumeric password
- * Used by all database providers for secure password generation
+ * Whether a value would be changed by percent-encoding in a URL
  */
-export const genAlphanumericPassword = (length = 24) => {
-  const chars =
-    "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  let result = "";
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+export const needsUrlEscaping = (value: string): boolean =>
+  !/^[A-Za-z0-9\-._~]*$/.test(value);
+
+const policyAlphabet = (policy: PasswordPolicy): string =>
+  [
+    ...new Set(
+      policy.classes.map((name) => CHARACTER_CLASSES[name]).join("") +
+        (policy.extraSymbols ?? "")
+    ),
+  ].join("");
+
+/**
+ * Reject policies that cannot be satisfied or that would produce values
+ * needing URL-escaping without opting in
+ */
+const checkPolicy = (policy: PasswordPolicy): string => {
+  const alphabet = policyAlphabet(policy);
+  const required = policy.classes.length * (policy.minPerClass ?? 1);
+
+  if (alphabet.length < 2) {
+    throw new Error(
+      "Password policy needs at least two characters to pick from"
+    );
+  }
+
+  if (!Number.isInteger(policy.length) || policy.length < required) {
+    throw new Error(
+      `Password length ${policy.length} is too short for ${required} required characters`
+    );
   }
-  return result;
+
+  if (!policy.allowUrlEscaping && needsUrlEscaping(alphabet)) {
+    throw new Error(
+      `Password policy includes characters that need URL-escaping: ${[
+        ...alphabet,
+      ]
+        .filter(needsUrlEscaping)
+        .join("")}`
+    );
+  }
+
+  return alphabet;
 };
 
 /**
- * Generate a random subdomain/identifier
- * Useful for generating unique identifiers for database instances
+ * Uniform pick using the operating system CSPRNG (no modulo bias)
+ */
+const pick = (chars: string): string => chars[randomInt(chars.length)];
+
+/**
+ * Generate a password that satisfies `policy`
  */
-export const genRandomIdentifier = (length = 10) => {
-  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
-  let result = "";
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+export const generatePassword = (
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): string => {
+  const alphabet = checkPolicy(policy);
+  const chars: string[] = [];
+
+  for (const name of policy.classes) {
+    for (let i = 0; i < (policy.minPerClass ?? 1); i++) {
+      chars.push(pick(CHARACTER_CLASSES[name]));
+    }
+  }
+
+  while (chars.length < policy.length) {
+    chars.push(pick(alphabet));
+  }
+
+  // Fisher-Yates, so the required characters are not always up front
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
   }
-  return result;
+
+  return chars.join("");
 };
+
+/**
+ * Entropy in bits of a password drawn from `policy`: length × log2(alphabet).
+ * The per-class minimums lower the true figure by well under one bit per
+ * class.
+ */
+export const passwordEntropy = (policy: PasswordPolicy): number =>
+  policy.length * Math.log2(policyAlphabet(policy).length);
+
+/**
+ * e.g. "32 characters, ~190 bits of entropy"
+ */
+export const describePasswordPolicy = (policy: PasswordPolicy): string =>
+  `${policy.length} characters, ~${Math.floor(passwordEntropy(policy))} bits of entropy`;
+
+/**
+ * Generate a random lowercase identifier for resource names, e.g. a
+ * container suffix
+ */
+export const generateIdentifier = (length = 10): string =>
+  generatePassword({ length, classes: ["lower", "digits"], minPerClass: 0 });
@@ -0,0 +1,63 @@
+import chalk from "chalk";
+
+/**
+ * Split text into lines, ignoring the newline that ends the file
+ */
+const splitLines = (text: string): string[] =>
+  text.length > 0 ? text.replace(/\n$/, "").split("\n") : [];
+
+/**
+ * Line-based diff of two texts, unified-style without hunk headers.
+ * Unchanged lines are kept so the result reads like the whole file.
+ */
+export const diffLines = (before: string, after: string): string[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`- ${a[i++]}`);
+  while (j < b.length) lines.push(`+ ${b[j++]}`);
+
+  return lines;
+};
+
+/**
+ * Print a diff with added lines in green and removed lines in red
+ */
+export const printDiff = (before: string, after: string): void => {
+  for (const line of diffLines(before, after)) {
+    if (line.startsWith("+")) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith("-")) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(chalk.gray(line));
+    }
+  }
+};
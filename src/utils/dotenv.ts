@@ -0,0 +1,303 @@
+/**
+ * .env files as a list of nodes that serialize back to the exact input.
+ * Only the entries that are changed are re-rendered, so comments, blank
+ * lines, `export` prefixes, spacing, quoting and line endings elsewhere
+ * in the file stay byte-for-byte the same.
+ *
+ * Parsing follows the dotenv package: `export` is allowed, values may be
+ * single-, double- or backtick-quoted and span lines, double quotes expand
+ * \n and \r, and `#` starts a comment in an unquoted value.
+ */
+
+export type EnvQuote = '"' | "'" | "`" | "";
+
+export interface EnvEntry {
+  type: "entry";
+  key: string;
+  /** Decoded value */
+  value: string;
+  /** 1-based line the entry starts on */
+  line: number;
+  /** Everything before the value, e.g. "export KEY = " */
+  assignment: string;
+  quote: EnvQuote;
+  /** Value as written between the quotes */
+  rawValue: string;
+  /** Everything after the closing quote up to and including the newline */
+  trailing: string;
+}
+
+/** Comment, blank or unparsable line, kept verbatim */
+export interface EnvText {
+  type: "text";
+  raw: string;
+  line: number;
+}
+
+export type EnvNode = EnvEntry | EnvText;
+
+export interface EnvDocument {
+  nodes: EnvNode[];
+  /** Line ending used for new lines: the file's own, "\n" if it has none */
+  eol: "\n" | "\r\n";
+}
+
+const ASSIGNMENT =
+  /^[ \t]*(?:export[ \t]+)?([A-Za-z_][A-Za-z0-9_.-]*)[ \t]*=[ \t]*/;
+
+const decodeDoubleQuoted = (raw: string): string =>
+  raw.replace(/\\([nr"])/g, (_, char: string) =>
+    char === "n" ? "\n" : char === "r" ? "\r" : '"'
+  );
+
+const encodeDoubleQuoted = (value: string): string =>
+  value.replace(/\r/g, "\\r").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const countLines = (text: string): number => text.split("\n").length - 1;
+
+/**
+ * Index of the quote that closes a value opened at `start`, or -1
+ */
+const findClosingQuote = (text: string, start: number, quote: string) => {
+  for (let i = start; i < text.length; i++) {
+    if (quote === '"' && text[i] === "\\") {
+      i++;
+    } else if (text[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * End of the line containing `index`, including its newline
+ */
+const endOfLine = (text: string, index: number): number => {
+  const newline = text.indexOf("\n", index);
+  return newline === -1 ? text.length : newline + 1;
+};
+
+export const parseEnv = (text: string): EnvDocument => {
+  const nodes: EnvNode[] = [];
+  let pos = 0;
+  let line = 1;
+
+  while (pos < text.length) {
+    const lineEnd = endOfLine(text, pos);
+    const match = ASSIGNMENT.exec(text.slice(pos, lineEnd));
+
+    if (!match) {
+      const raw = text.slice(pos, lineEnd);
+      nodes.push({ type: "text", raw, line });
+      line += countLines(raw);
+      pos = lineEnd;
+      continue;
+    }
+
+    const valueStart = pos + match[0].length;
+    const assignment = match[0];
+    const opening = text[valueStart];
+    let entry: EnvEntry | null = null;
+
+    if (opening === '"' || opening === "'" || opening === "`") {
+      const closing = findClosingQuote(text, valueStart + 1, opening);
+      if (closing !== -1) {
+        const rawValue = text.slice(valueStart + 1, closing);
+        const end = endOfLine(text, closing);
+        entry = {
+          type: "entry",
+          key: match[1],
+          value: opening === '"' ? decodeDoubleQuoted(rawValue) : rawValue,
+          line,
+          assignment,
+          quote: opening,
+          rawValue,
+          trailing: text.slice(closing + 1, end),
+        };
+      }
+    }
+
+    if (!entry) {
+      // Unquoted (or an unterminated quote): up to a comment or the end of
+      // the line, without surrounding whitespace
+      const rest = text.slice(valueStart, lineEnd);
+      const commentStart = rest.indexOf("#");
+      const content = (
+        commentStart === -1
+          ? rest.replace(/\r?\n$/, "")
+          : rest.slice(0, commentStart)
+      ).replace(/[ \t]+$/, "");
+
+      entry = {
+        type: "entry",
+        key: match[1],
+        value: content,
+        line,
+        assignment,
+        quote: "",
+        rawValue: content,
+        trailing: rest.slice(content.length),
+      };
+    }
+
+    const raw = renderEntry(entry);
+    nodes.push(entry);
+    line += countLines(raw);
+    pos += raw.length;
+  }
+
+  return { nodes, eol: text.includes("\r\n") ? "\r\n" : "\n" };
+};
+
+const renderEntry = (entry: EnvEntry): string =>
+  entry.assignment +
+  entry.quote +
+  entry.rawValue +
+  entry.quote +
+  entry.trailing;
+
+export const serializeEnv = (doc: EnvDocument): string =>
+  doc.nodes
+    .map((node) => (node.type === "entry" ? renderEntry(node) : node.raw))
+    .join("");
+
+const entries = (doc: EnvDocument): EnvEntry[] =>
+  doc.nodes.filter((node): node is EnvEntry => node.type === "entry");
+
+/**
+ * The value a dotenv loader would see: the last definition wins
+ */
+export const getEnvValue = (
+  doc: EnvDocument,
+  key: string
+): string | undefined =>
+  entries(doc)
+    .filter((entry) => entry.key === key)
+    .pop()?.value;
+
+export const hasEnvKey = (doc: EnvDocument, key: string): boolean =>
+  entries(doc).some((entry) => entry.key === key);
+
+/**
+ * Keys defined more than once, with the lines they are defined on
+ */
+export const findDuplicateKeys = (
+  doc: EnvDocument
+): Record<string, number[]> => {
+  const lines: Record<string, number[]> = {};
+  for (const entry of entries(doc)) {
+    (lines[entry.key] ??= []).push(entry.line);
+  }
+  return Object.fromEntries(
+    Object.entries(lines).filter(([, found]) => found.length > 1)
+  );
+};
+
+/**
+ * Quote and escape a value, keeping `preferred` quoting when it can hold
+ * the value. Unquoted values may not contain whitespace, quotes, "#" or
+ * "\"; single quotes and backticks are literal; double quotes are the
+ * last resort since loaders disagree on escapes beyond \n.
+ */
+export const formatEnvValue = (
+  value: string,
+  preferred?: EnvQuote
+): { quote: EnvQuote; rawValue: string } => {
+  const fits = (quote: EnvQuote): boolean => {
+    switch (quote) {
+      case "":
+        return /^[^\s#"'`\\]*$/.test(value);
+      case "'":
+      case "`":
+        return !value.includes(quote);
+      case '"':
+        return true;
+    }
+  };
+
+  const order: EnvQuote[] = ["", "'", "`", '"'];
+  const quote =
+    preferred !== undefined && fits(preferred) ? preferred : order.find(fits)!;
+
+  return {
+    quote,
+    rawValue: quote === '"' ? encodeDoubleQuoted(value) : value,
+  };
+};
+
+/**
+ * Set every definition of `key` to `value`, keeping each one's `export`,
+ * spacing, quote style (when possible) and inline comment. Returns false
+ * if the key is not defined.
+ */
+export const updateEnvValue = (
+  doc: EnvDocument,
+  key: string,
+  value: string
+): boolean => {
+  const matching = entries(doc).filter((entry) => entry.key === key);
+
+  for (const entry of matching) {
+    Object.assign(entry, { value, ...formatEnvValue(value, entry.quote) });
+  }
+
+  return matching.length > 0;
+};
+
+/**
+ * Add new keys under a `header` comment: right after that section's
+ * entries if the header already exists, otherwise in a new section at the
+ * end of the file
+ */
+export const appendEnvValues = (
+  doc: EnvDocument,
+  values: Record<string, string>,
+  header: string
+): void => {
+  const { eol } = doc;
+  const newEntries: EnvEntry[] = Object.entries(values).map(([key, value]) => ({
+    type: "entry",
+    key,
+    value,
+    line: 0,
+    assignment: `${key}=`,
+    ...formatEnvValue(value),
+    trailing: eol,
+  }));
+
+  const headerIndex = doc.nodes.findIndex(
+    (node) => node.type === "text" && node.raw.trim() === header
+  );
+
+  if (headerIndex !== -1) {
+    let insertAt = headerIndex + 1;
+    while (doc.nodes[insertAt]?.type === "entry") insertAt++;
+
+    // The section's last entry may be the file's last line without a newline
+    const previous = doc.nodes[insertAt - 1];
+    if (previous.type === "entry" && !previous.trailing.endsWith("\n")) {
+      previous.trailing += eol;
+    }
+
+    doc.nodes.splice(insertAt, 0, ...newEntries);
+    return;
+  }
+
+  const last = doc.nodes[doc.nodes.length - 1];
+  if (last) {
+    const lastRaw = last.type === "entry" ? renderEntry(last) : last.raw;
+    if (!lastRaw.endsWith("\n")) {
+      if (last.type === "entry") last.trailing += eol;
+      else last.raw += eol;
+    }
+    // Separate the new section from existing content with a blank line
+    if (lastRaw.trim() !== "") {
+      doc.nodes.push({ type: "text", raw: eol, line: 0 });
+    }
+  }
+
+  doc.nodes.push(
+    { type: "text", raw: `${header}${eol}`, line: 0 },
+    ...newEntries
+  );
+};
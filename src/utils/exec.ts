@@ -0,0 +1,200 @@
+import { spawnSync } from "child_process";
+import { existsSync } from "fs";
+import { delimiter, extname, join } from "path";
+import chalk from "chalk";
+import { isJsonMode, isShowingSecrets, registerSecret } from "./output";
+
+export interface RunOptions {
+  stdio?: "pipe" | "inherit" | "ignore";
+  cwd?: string;
+  /**
+   * Milliseconds before the command is killed. Defaults to
+   * DEFAULT_TIMEOUT_MS for piped commands; interactive ("inherit")
+   * commands wait for the user unless a timeout is given.
+   */
+  timeout?: number;
+  /** Values (passwords, tokens) to hide when the command is printed */
+  secrets?: string[];
+  /** Stand-in stdout returned by --dry-run so read commands still parse */
+  dryRunOutput?: string;
+}
+
+export interface CommandResult {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+  /** Set when the command could not be started (e.g. ENOENT) */
+  error?: string;
+  timedOut?: boolean;
+}
+
+/**
+ * Executes external commands. Swap the active runner with
+ * setCommandRunner() to record or replay provider CLI calls.
+ */
+export interface CommandRunner {
+  run(command: string, args: string[], options: RunOptions): CommandResult;
+}
+
+export const DEFAULT_TIMEOUT_MS = 120_000;
+
+/** Characters cmd.exe treats specially, escaped with ^ */
+const CMD_META = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Quote one argument for a .cmd/.bat shim: first for the program's own
+ * command-line parsing, then (twice, since the shim passes its arguments
+ * on to another cmd.exe) for cmd.exe itself
+ */
+export const quoteCmdArg = (arg: string): string =>
+  `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, "$1$1")}"`
+    .replace(CMD_META, "^$1")
+    .replace(CMD_META, "^$1");
+
+/**
+ * The program and arguments to start `command` with on Windows. npm shims
+ * such as npx.cmd and vercel.cmd only run through cmd.exe, so they get an
+ * explicitly quoted command line; executables are started directly.
+ */
+export const windowsCommand = (
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env
+): { file: string; args: string[]; verbatim: boolean } => {
+  const extensions = (env.PATHEXT ?? ".COM;.EXE;.BAT;.CMD")
+    .split(";")
+    .filter(Boolean);
+  const candidates = extname(command) ? [""] : extensions;
+  const dirs = /[\\/]/.test(command)
+    ? [""]
+    : ["", ...(env.PATH ?? env.Path ?? "").split(delimiter).filter(Boolean)];
+
+  const resolved = dirs
+    .flatMap((dir) => candidates.map((ext) => join(dir, command + ext)))
+    .find((path) => existsSync(path));
+
+  if (!resolved || !/\.(cmd|bat)$/i.test(resolved)) {
+    return { file: resolved ?? command, args, verbatim: false };
+  }
+
+  const line = [resolved.replace(CMD_META, "^$1"), ...args.map(quoteCmdArg)];
+  return {
+    file: env.ComSpec ?? "cmd.exe",
+    args: ["/d", "/s", "/c", `"${line.join(" ")}"`],
+    verbatim: true,
+  };
+};
+
+/**
+ * Runs commands as child processes with an argument array and no shell.
+ * On Windows, .cmd shims go through cmd.exe with every argument quoted
+ * (see windowsCommand).
+ */
+export const spawnRunner: CommandRunner = {
+  run: (command, args, options) => {
+    const stdio = options.stdio ?? "pipe";
+    const timeout =
+      options.timeout ?? (stdio === "inherit" ? undefined : DEFAULT_TIMEOUT_MS);
+    const spawned =
+      process.platform === "win32"
+        ? windowsCommand(command, args)
+        : { file: command, args, verbatim: false };
+
+    const result = spawnSync(spawned.file, spawned.args, {
+      encoding: "utf-8",
+      windowsVerbatimArguments: spawned.verbatim,
+      // Interactive output goes to stderr so --json keeps stdout clean
+      stdio: stdio === "inherit" && isJsonMode() ? [0, 2, 2] : stdio,
+      cwd: options.cwd,
+      timeout,
+    });
+
+    const timedOut =
+      (result.error as NodeJS.ErrnoException | undefined)?.code === "ETIMEDOUT";
+
+    return {
+      status: result.status,
+      stdout: result.stdout ?? "",
+      stderr: result.stderr ?? "",
+      error: result.error?.message,
+      timedOut,
+    };
+  },
+};
+
+let activeRunner: CommandRunner = spawnRunner;
+let dryRun = false;
+
+/**
+ * Replace the runner used by runCommand(); returns the previous one
+ */
+export const setCommandRunner = (runner: CommandRunner): CommandRunner => {
+  const previous = activeRunner;
+  activeRunner = runner;
+  return previous;
+};
+
+export const getCommandRunner = (): CommandRunner => activeRunner;
+
+/**
+ * Print commands instead of running them (--dry-run)
+ */
+export const setDryRun = (value: boolean): void => {
+  dryRun = value;
+};
+
+export const isDryRun = (): boolean => dryRun;
+
+/**
+ * Quote an argument for display the way a POSIX shell would need it
+ */
+const quoteArg = (arg: string): string =>
+  /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Render a command line for display with secrets replaced by ***
+ */
+export const formatCommand = (
+  command: string,
+  args: string[],
+  secrets: string[] = []
+): string => {
+  const line = [command, ...args].map(quoteArg).join(" ");
+  if (isShowingSecrets()) return line;
+
+  return secrets
+    .filter((secret) => secret.length > 0)
+    .reduce((text, secret) => text.split(secret).join("***"), line);
+};
+
+/**
+ * Run an external command through the active runner, or only print it
+ * in --dry-run
+ */
+export const runCommand = (
+  command: string,
+  args: string[],
+  options: RunOptions = {}
+): CommandResult => {
+  // Hidden from everything printed from now on, not just this command line
+  options.secrets?.forEach(registerSecret);
+
+  if (dryRun) {
+    console.log(
+      chalk.cyan(`[dry-run] $ ${formatCommand(command, args, options.secrets)}`)
+    );
+    return { status: 0, stdout: options.dryRunOutput ?? "", stderr: "" };
+  }
+
+  const result = activeRunner.run(command, args, options);
+
+  if (result.timedOut) {
+    console.log(
+      chalk.yellow(
+        `\n⚠️  Timed out: ${formatCommand(command, args, options.secrets)}`
+      )
+    );
+  }
+
+  return result;
+};
@@ -0,0 +1,71 @@
+import type { CommandResult, CommandRunner, RunOptions } from "./exec";
+
+/**
+ * One command call and what it returned
+ */
+export interface RecordedCommand {
+  command: string;
+  args: string[];
+  cwd?: string;
+  result: CommandResult;
+}
+
+/**
+ * Runner that passes every call to another runner and keeps a log of
+ * calls and results, e.g. to capture fixtures from a real CLI session
+ */
+export const createRecordingRunner = (
+  inner: CommandRunner
+): CommandRunner & { calls: RecordedCommand[] } => {
+  const calls: RecordedCommand[] = [];
+
+  return {
+    calls,
+    run: (command: string, args: string[], options: RunOptions) => {
+      const result = inner.run(command, args, options);
+      calls.push({ command, args: [...args], cwd: options.cwd, result });
+      return result;
+    },
+  };
+};
+
+/**
+ * Runner that replays recorded calls in order instead of starting
+ * processes. A call that does not match the next recording throws, so
+ * a changed provider flow fails loudly rather than drifting.
+ */
+export const createReplayRunner = (
+  recordings: RecordedCommand[]
+): CommandRunner & { calls: RecordedCommand[]; remaining: () => number } => {
+  const calls: RecordedCommand[] = [];
+  let next = 0;
+
+  return {
+    calls,
+    remaining: () => recordings.length - next,
+    run: (command: string, args: string[], options: RunOptions) => {
+      const actual = [command, ...args].join(" ");
+      const expected = recordings[next];
+
+      if (!expected) {
+        throw new Error(`Unexpected command (no recordings left): ${actual}`);
+      }
+
+      const wanted = [expected.command, ...expected.args].join(" ");
+      if (actual !== wanted) {
+        throw new Error(
+          `Unexpected command #${next + 1}: ${actual}\nExpected: ${wanted}`
+        );
+      }
+
+      next++;
+      calls.push({
+        command,
+        args: [...args],
+        cwd: options.cwd,
+        result: expected.result,
+      });
+      return expected.result;
+    },
+  };
+};
@@ -0,0 +1,189 @@
+import chalk from "chalk";
+import { format } from "util";
+import { maskConnectionStrings } from "./connection-string";
+import { parseEnv, serializeEnv, updateEnvValue } from "./dotenv";
+
+/**
+ * Version of the --json result shape; bumped on breaking changes
+ */
+export const JSON_RESULT_VERSION = 1;
+
+/**
+ * Object printed on stdout by --json (see README "JSON Output")
+ */
+export interface JsonSetupResult {
+  version: number;
+  status: "success" | "skipped" | "error";
+  provider: string | null;
+  /** Provider resource identifiers, e.g. { projectId } or { containerName } */
+  resource: Record<string, string>;
+  region: string | null;
+  envFiles: Array<{ envPath: string; variableName: string }>;
+  maskedUrl: string | null;
+  /** Result of the test connection, null if it was skipped */
+  connection: {
+    serverVersion: string;
+    latencyMs: number;
+    tls: boolean;
+    attempts: number;
+  } | null;
+  /** One entry per --environment, when given */
+  environments?: Array<{
+    name: string;
+    resource: Record<string, string>;
+    envPath: string;
+    maskedUrl: string;
+  }>;
+  warnings: string[];
+  /** `code` and `hint` are set for expected failures (see src/errors.ts) */
+  error?: { name: string; code?: string; message: string; hint?: string };
+}
+
+const warnings: string[] = [];
+const secrets = new Set<string>();
+let jsonMode = false;
+let showSecrets = false;
+let redacting = false;
+let writeStdout: (text: string) => void = (text) => {
+  process.stdout.write(text);
+};
+
+export const isJsonMode = (): boolean => jsonMode;
+
+/**
+ * Silence all human-readable output so stdout carries only the JSON result.
+ * Prompts still render on stderr.
+ */
+export const enableJsonMode = (): void => {
+  if (jsonMode) return;
+  jsonMode = true;
+  chalk.level = 0;
+
+  const originalWrite = process.stdout.write.bind(process.stdout);
+  writeStdout = (text) => {
+    originalWrite(text);
+  };
+
+  const silent = () => {};
+  console.log = silent;
+  console.info = silent;
+  console.warn = silent;
+  console.error = silent;
+  console.debug = silent;
+  process.stdout.write = (() => true) as typeof process.stdout.write;
+};
+
+/**
+ * Print a warning and keep it for the JSON result
+ */
+export const warn = (message: string): void => {
+  warnings.push(message);
+  console.log(chalk.yellow(`\n⚠️  ${message}`));
+};
+
+export const getWarnings = (): string[] => [...warnings];
+
+/**
+ * Write the JSON result to the real stdout
+ */
+export const printJsonResult = (
+  result: Omit<JsonSetupResult, "version" | "warnings">
+): void => {
+  const output: JsonSetupResult = {
+    version: JSON_RESULT_VERSION,
+    ...result,
+    warnings: getWarnings(),
+  };
+  writeStdout(redact(`${JSON.stringify(output, null, 2)}\n`));
+};
+
+/**
+ * Remember a password or token so that redact() hides it wherever it
+ * shows up, including percent-encoded inside a URL
+ */
+export const registerSecret = (value: string | undefined): void => {
+  // Short values would mask unrelated words all over the output
+  if (!value || value.length < 6) return;
+  secrets.add(value);
+  secrets.add(encodeURIComponent(value));
+};
+
+/**
+ * --show-secrets: print passwords and tokens as they are
+ */
+export const setShowSecrets = (value: boolean): void => {
+  showSecrets = value;
+};
+
+export const isShowingSecrets = (): boolean => showSecrets;
+
+/**
+ * Replace registered secrets and connection string passwords with ***
+ */
+export const redact = (text: string): string => {
+  if (showSecrets) return text;
+
+  // Longest first so a secret containing another is replaced whole
+  const masked = [...secrets]
+    .sort((a, b) => b.length - a.length)
+    .reduce((result, secret) => result.split(secret).join("***"), text);
+  return maskConnectionStrings(masked);
+};
+
+/**
+ * Keys whose values maskEnvSecrets() hides, besides connection strings
+ */
+const SECRET_KEY = /PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|PRIVATE_KEY/i;
+
+/**
+ * An env file's text for display: values of secret-looking keys and
+ * connection string passwords become *** unless --show-secrets
+ */
+export const maskEnvSecrets = (content: string): string => {
+  if (showSecrets) return content;
+
+  const doc = parseEnv(content);
+  for (const node of doc.nodes) {
+    if (node.type === "entry" && node.value && SECRET_KEY.test(node.key)) {
+      updateEnvValue(doc, node.key, "***");
+    }
+  }
+  return maskConnectionStrings(serializeEnv(doc));
+};
+
+/**
+ * Route console output and direct stdout/stderr writes through redact().
+ * Returns a function that undoes it; nested calls are no-ops.
+ */
+export const enableRedaction = (): (() => void) => {
+  if (redacting) return () => {};
+  redacting = true;
+
+  const methods = ["log", "info", "warn", "error", "debug"] as const;
+  const originals = methods.map((method) => console[method]);
+  methods.forEach((method, i) => {
+    console[method] = (...args: unknown[]) =>
+      originals[i](redact(format(...args)));
+  });
+
+  const streams = [process.stdout, process.stderr];
+  const writes = streams.map((stream) => stream.write);
+  streams.forEach((stream, i) => {
+    stream.write = ((chunk: unknown, ...rest: unknown[]) =>
+      (writes[i] as (...args: unknown[]) => boolean).call(
+        stream,
+        typeof chunk === "string" ? redact(chunk) : chunk,
+        ...rest
+      )) as typeof stream.write;
+  });
+
+  return () => {
+    methods.forEach((method, i) => {
+      console[method] = originals[i];
+    });
+    streams.forEach((stream, i) => {
+      stream.write = writes[i];
+    });
+    redacting = false;
+  };
+};
@@ -0,0 +1,467 @@
+import * as net from "net";
+import * as tls from "tls";
+import { createHash, createHmac, pbkdf2Sync, randomBytes } from "crypto";
+
+/**
+ * Minimal PostgreSQL frontend/backend protocol (v3) client: enough to
+ * log in and run one simple query, without depending on a driver.
+ * https://www.postgresql.org/docs/current/protocol-flow.html
+ */
+
+export type SslMode =
+  "disable" | "allow" | "prefer" | "require" | "verify-ca" | "verify-full";
+
+export interface PgConnectionConfig {
+  /** Host name, IP address, or a Unix socket directory starting with "/" */
+  host: string;
+  port: number;
+  user: string;
+  password?: string;
+  database: string;
+  sslMode: SslMode;
+  /** Milliseconds for the whole connect + query round trip */
+  timeoutMs?: number;
+}
+
+export interface PgQueryResult {
+  /** First column of the first row */
+  value: string | null;
+  /** server_version reported during startup */
+  serverVersion?: string;
+  /** Whether the connection was encrypted */
+  tls: boolean;
+}
+
+/**
+ * Error reported by the server (ErrorResponse) or by the client while
+ * talking to it. `code` is the SQLSTATE, or a Node error code such as
+ * ECONNREFUSED for network failures.
+ */
+export class PgError extends Error {
+  readonly code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = "PgError";
+    this.code = code;
+  }
+}
+
+interface BackendMessage {
+  type: string;
+  body: Buffer;
+}
+
+const PROTOCOL_VERSION = 196608; // 3.0
+const SSL_REQUEST_CODE = 80877103;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Build a frontend message: type byte (omitted for startup packets),
+ * Int32 length including itself, then the body
+ */
+const frame = (type: string | null, body: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeInt32BE(body.length + 4);
+  return Buffer.concat(
+    type ? [Buffer.from(type), length, body] : [length, body]
+  );
+};
+
+const cstring = (value: string): Buffer =>
+  Buffer.concat([Buffer.from(value, "utf-8"), Buffer.from([0])]);
+
+const int32 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeInt32BE(value);
+  return buffer;
+};
+
+/**
+ * Read the fields of an ErrorResponse/NoticeResponse body
+ */
+const parseErrorFields = (body: Buffer): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < body.length && body[offset] !== 0) {
+    const field = String.fromCharCode(body[offset]);
+    const end = body.indexOf(0, offset + 1);
+    fields[field] = body.toString("utf-8", offset + 1, end);
+    offset = end + 1;
+  }
+
+  return fields;
+};
+
+/**
+ * Buffer socket data and hand out complete backend messages in order
+ */
+const createMessageReader = (socket: net.Socket) => {
+  let buffered = Buffer.alloc(0);
+  let waiting: ((message: BackendMessage) => void) | null = null;
+  let failed: ((error: Error) => void) | null = null;
+  let closedError: Error | null = null;
+
+  const take = (): BackendMessage | null => {
+    if (buffered.length < 5) return null;
+    const length = buffered.readInt32BE(1);
+    if (buffered.length < length + 1) return null;
+
+    const message = {
+      type: String.fromCharCode(buffered[0]),
+      body: buffered.subarray(5, length + 1),
+    };
+    buffered = buffered.subarray(length + 1);
+    return message;
+  };
+
+  const deliver = () => {
+    if (!waiting) return;
+    const message = take();
+    if (message) {
+      const resolve = waiting;
+      waiting = null;
+      failed = null;
+      resolve(message);
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    deliver();
+  });
+
+  const fail = (error: Error) => {
+    closedError = error;
+    if (failed) {
+      const reject = failed;
+      waiting = null;
+      failed = null;
+      reject(error);
+    }
+  };
+
+  socket.on("error", (error: NodeJS.ErrnoException) =>
+    fail(new PgError(error.message, error.code))
+  );
+  socket.on("close", () =>
+    fail(new PgError("Connection closed by the server", "ECONNRESET"))
+  );
+
+  return (): Promise<BackendMessage> =>
+    new Promise((resolve, reject) => {
+      const message = take();
+      if (message) return resolve(message);
+      if (closedError) return reject(closedError);
+      waiting = resolve;
+      failed = reject;
+    });
+};
+
+/**
+ * Open a TCP connection, optionally upgrading it to TLS per sslmode
+ */
+const openSocket = (
+  config: PgConnectionConfig,
+  track: (socket: net.Socket) => void
+): Promise<{ socket: net.Socket; tls: boolean }> =>
+  new Promise((resolve, reject) => {
+    const unixSocket = config.host.startsWith("/");
+    const raw = unixSocket
+      ? net.connect({ path: `${config.host}/.s.PGSQL.${config.port}` })
+      : net.connect({ host: config.host, port: config.port });
+    track(raw);
+
+    const onError = (error: NodeJS.ErrnoException) =>
+      reject(new PgError(error.message, error.code));
+    raw.once("error", onError);
+
+    raw.once("connect", () => {
+      // Like libpq, never negotiate SSL over a Unix socket
+      if (config.sslMode === "disable" || unixSocket) {
+        raw.off("error", onError);
+        return resolve({ socket: raw, tls: false });
+      }
+
+      raw.write(frame(null, int32(SSL_REQUEST_CODE)));
+      raw.once("data", (reply: Buffer) => {
+        const accepted = reply[0] === 0x53; // 'S'
+        const mustEncrypt = !["allow", "prefer"].includes(config.sslMode);
+
+        if (!accepted) {
+          if (mustEncrypt) {
+            raw.destroy();
+            return reject(
+              new PgError(
+                `Server does not support SSL, but sslmode=${config.sslMode} requires it`
+              )
+            );
+          }
+          raw.off("error", onError);
+          return resolve({ socket: raw, tls: false });
+        }
+
+        const verify = config.sslMode.startsWith("verify-");
+        const secure = tls.connect({
+          socket: raw,
+          servername: net.isIP(config.host) ? undefined : config.host,
+          rejectUnauthorized: verify,
+          // verify-ca trusts the certificate chain but not the host name
+          checkServerIdentity:
+            config.sslMode === "verify-ca" ? () => undefined : undefined,
+        });
+        track(secure);
+        secure.once("error", onError);
+        secure.once("secureConnect", () => {
+          raw.off("error", onError);
+          secure.off("error", onError);
+          resolve({ socket: secure, tls: true });
+        });
+      });
+    });
+  });
+
+/**
+ * SCRAM-SHA-256 exchange (RFC 5802 / RFC 7677) without channel binding
+ */
+const scramSha256 = async (
+  password: string,
+  send: (message: Buffer) => void,
+  read: () => Promise<BackendMessage>
+): Promise<void> => {
+  const clientNonce = randomBytes(18).toString("base64");
+  const clientFirstBare = `n=,r=${clientNonce}`;
+  const clientFirst = Buffer.from(`n,,${clientFirstBare}`);
+
+  send(
+    frame(
+      "p",
+      Buffer.concat([
+        cstring("SCRAM-SHA-256"),
+        int32(clientFirst.length),
+        clientFirst,
+      ])
+    )
+  );
+
+  const serverFirst = await expectAuth(read, 11);
+  const serverFirstText = serverFirst.toString("utf-8");
+  const attributes = Object.fromEntries(
+    serverFirstText.split(",").map((part) => [part[0], part.slice(2)])
+  );
+
+  if (!attributes.r?.startsWith(clientNonce)) {
+    throw new PgError("SCRAM server nonce does not match the client nonce");
+  }
+
+  const salted = pbkdf2Sync(
+    password,
+    Buffer.from(attributes.s, "base64"),
+    Number(attributes.i),
+    32,
+    "sha256"
+  );
+  const hmac = (key: Buffer, text: string) =>
+    createHmac("sha256", key).update(text).digest();
+
+  const clientKey = hmac(salted, "Client Key");
+  const storedKey = createHash("sha256").update(clientKey).digest();
+  const clientFinalWithoutProof = `c=biws,r=${attributes.r}`;
+  const authMessage = `${clientFirstBare},${serverFirstText},${clientFinalWithoutProof}`;
+  const signature = hmac(storedKey, authMessage);
+  const proof = clientKey.map((byte, i) => byte ^ signature[i]);
+
+  send(
+    frame(
+      "p",
+      Buffer.from(
+        `${clientFinalWithoutProof},p=${Buffer.from(proof).toString("base64")}`
+      )
+    )
+  );
+
+  const serverFinal = (await expectAuth(read, 12)).toString("utf-8");
+  const expected = hmac(hmac(salted, "Server Key"), authMessage);
+
+  if (serverFinal !== `v=${expected.toString("base64")}`) {
+    throw new PgError("SCRAM server signature is invalid");
+  }
+};
+
+/**
+ * Read the next message, which must be an Authentication message with
+ * the given code; returns the rest of its body
+ */
+const expectAuth = async (
+  read: () => Promise<BackendMessage>,
+  code: number
+): Promise<Buffer> => {
+  const message = await read();
+  throwIfError(message);
+
+  if (message.type !== "R" || message.body.readInt32BE(0) !== code) {
+    throw new PgError(
+      `Unexpected message '${message.type}' during authentication`
+    );
+  }
+
+  return message.body.subarray(4);
+};
+
+const throwIfError = (message: BackendMessage): void => {
+  if (message.type === "E") {
+    const fields = parseErrorFields(message.body);
+    throw new PgError(fields.M ?? "Server error", fields.C);
+  }
+};
+
+/**
+ * Answer the server's authentication request until AuthenticationOk
+ */
+const authenticate = async (
+  config: PgConnectionConfig,
+  send: (message: Buffer) => void,
+  read: () => Promise<BackendMessage>
+): Promise<void> => {
+  const message = await read();
+  throwIfError(message);
+
+  if (message.type !== "R") {
+    throw new PgError(`Unexpected message '${message.type}' before login`);
+  }
+
+  const code = message.body.readInt32BE(0);
+  const password = config.password ?? "";
+
+  switch (code) {
+    case 0: // AuthenticationOk
+      return;
+    case 3: // AuthenticationCleartextPassword
+      send(frame("p", cstring(password)));
+      break;
+    case 5: {
+      // AuthenticationMD5Password
+      const salt = message.body.subarray(4, 8);
+      const md5 = (data: Buffer | string) =>
+        createHash("md5").update(data).digest("hex");
+      const inner = md5(password + config.user);
+      send(
+        frame(
+          "p",
+          cstring(`md5${md5(Buffer.concat([Buffer.from(inner), salt]))}`)
+        )
+      );
+      break;
+    }
+    case 10: {
+      // AuthenticationSASL
+      const mechanisms = message.body
+        .subarray(4)
+        .toString("utf-8")
+        .split("\0")
+        .filter(Boolean);
+      if (!mechanisms.includes("SCRAM-SHA-256")) {
+        throw new PgError(
+          `Unsupported SASL mechanisms: ${mechanisms.join(", ")}`
+        );
+      }
+      await scramSha256(password, send, read);
+      break;
+    }
+    default:
+      throw new PgError(`Unsupported authentication method (code ${code})`);
+  }
+
+  const result = await read();
+  throwIfError(result);
+  if (result.type !== "R" || result.body.readInt32BE(0) !== 0) {
+    throw new PgError("Authentication did not complete");
+  }
+};
+
+/**
+ * Connect, log in, run one simple query and disconnect
+ */
+export const queryOnce = async (
+  config: PgConnectionConfig,
+  sql: string
+): Promise<PgQueryResult> => {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  // Destroyed in `finally`, including when the timeout wins the race
+  const sockets: net.Socket[] = [];
+  let timer: NodeJS.Timeout | undefined;
+
+  const run = async (): Promise<PgQueryResult> => {
+    const opened = await openSocket(config, (socket) => sockets.push(socket));
+    const read = createMessageReader(opened.socket);
+    const send = (message: Buffer) => opened.socket.write(message);
+
+    send(
+      frame(
+        null,
+        Buffer.concat([
+          int32(PROTOCOL_VERSION),
+          cstring("user"),
+          cstring(config.user),
+          cstring("database"),
+          cstring(config.database),
+          cstring("application_name"),
+          cstring("db-setup"),
+          Buffer.from([0]),
+        ])
+      )
+    );
+
+    await authenticate(config, send, read);
+
+    // ParameterStatus, BackendKeyData, ... until ReadyForQuery
+    let serverVersion: string | undefined;
+    for (let message = await read(); message.type !== "Z";) {
+      throwIfError(message);
+      if (message.type === "S") {
+        const [name, value] = message.body.toString("utf-8").split("\0");
+        if (name === "server_version") serverVersion = value;
+      }
+      message = await read();
+    }
+
+    send(frame("Q", cstring(sql)));
+
+    let value: string | null = null;
+    let queryError: PgError | null = null;
+    for (let message = await read(); message.type !== "Z";) {
+      if (message.type === "E") {
+        const fields = parseErrorFields(message.body);
+        queryError = new PgError(fields.M ?? "Query failed", fields.C);
+      } else if (message.type === "D" && value === null) {
+        const length = message.body.readInt32BE(2);
+        value =
+          length < 0 ? null : message.body.toString("utf-8", 6, 6 + length);
+      }
+      message = await read();
+    }
+
+    send(frame("X", Buffer.alloc(0)));
+    if (queryError) throw queryError;
+
+    return { value, serverVersion, tls: opened.tls };
+  };
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new PgError(`No response within ${timeoutMs / 1000}s`, "ETIMEDOUT")
+        ),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([run(), timeout]);
+  } finally {
+    clearTimeout(timer);
+    for (const socket of sockets) socket.destroy();
+  }
+};
@@ -0,0 +1,218 @@
+import * as inquirer from "@inquirer/prompts";
+import { stripVTControlCharacters } from "util";
+import { isJsonMode, isShowingSecrets, registerSecret } from "./output";
+
+type SelectConfig<Value> = Parameters<typeof inquirer.select<Value>>[0];
+type CheckboxConfig<Value> = Parameters<typeof inquirer.checkbox<Value>>[0];
+type InputConfig = Parameters<typeof inquirer.input>[0];
+type ConfirmConfig = Parameters<typeof inquirer.confirm>[0];
+type PasswordConfig = Parameters<typeof inquirer.password>[0];
+
+/**
+ * A pre-supplied answer for a prompt, and the flag it came from
+ */
+export interface PresetAnswer<Value> {
+  value?: Value;
+  flag: string;
+}
+
+let assumeYes = false;
+
+/**
+ * Accept the default answer for every question that has one (--yes); a
+ * confirm without a default counts as yes
+ */
+export const setAssumeYes = (value: boolean): void => {
+  assumeYes = value;
+};
+
+export const isAssumingYes = (): boolean => assumeYes;
+
+export const isInteractive = (): boolean => Boolean(process.stdin.isTTY);
+
+/**
+ * Keep stdout clean for --json by drawing prompts on stderr
+ */
+const promptContext = () =>
+  isJsonMode() ? { output: process.stderr } : undefined;
+
+/**
+ * Error for a question that has no answer and cannot be asked
+ */
+const missingAnswer = (message: string, flag?: string): Error => {
+  const question = stripVTControlCharacters(message).trim();
+  const hint = flag
+    ? `Pass ${flag} to answer it.`
+    : "Run the command in an interactive terminal.";
+
+  return new Error(
+    `No answer for "${question}" and stdin is not a TTY. ${hint}`
+  );
+};
+
+/**
+ * Run an input-style validate function against a pre-supplied value
+ */
+const checkPresetValue = async (
+  value: string,
+  flag: string,
+  validate?: InputConfig["validate"]
+): Promise<void> => {
+  if (!validate) return;
+
+  const result = await validate(value);
+
+  if (result !== true) {
+    const reason = typeof result === "string" ? result : "invalid value";
+    throw new Error(`Invalid value for ${flag}: ${reason}`);
+  }
+};
+
+/**
+ * Select prompt that can be answered by a flag or skipped with --yes
+ */
+export const select = async <Value>(
+  config: SelectConfig<Value>,
+  preset?: PresetAnswer<Value>
+): Promise<Value> => {
+  if (preset?.value !== undefined) {
+    const values = config.choices
+      .filter((choice) => typeof choice === "object" && "value" in choice)
+      .map((choice) => (choice as { value: Value }).value);
+
+    if (values.length > 0 && !values.includes(preset.value)) {
+      throw new Error(
+        `Invalid value for ${preset.flag}: ${preset.value}. ` +
+          `Expected one of: ${values.join(", ")}`
+      );
+    }
+
+    return preset.value;
+  }
+
+  if (assumeYes && config.default !== undefined) {
+    return config.default as Value;
+  }
+
+  if (!isInteractive()) {
+    throw missingAnswer(config.message, preset?.flag);
+  }
+
+  return inquirer.select(config, promptContext());
+};
+
+/**
+ * Multi-select prompt that can be answered by a repeatable flag; --yes
+ * keeps the pre-checked choices
+ */
+export const checkbox = async <Value>(
+  config: CheckboxConfig<Value>,
+  preset?: PresetAnswer<Value[]>
+): Promise<Value[]> => {
+  const choices = config.choices.filter(
+    (choice): choice is { value: Value; checked?: boolean } =>
+      typeof choice === "object" && "value" in choice
+  );
+
+  if (preset?.value !== undefined) {
+    const values = choices.map((choice) => choice.value);
+    const invalid = preset.value.filter((value) => !values.includes(value));
+
+    if (invalid.length > 0) {
+      throw new Error(
+        `Invalid value for ${preset.flag}: ${invalid.join(", ")}. ` +
+          `Expected one of: ${values.join(", ")}`
+      );
+    }
+
+    return preset.value;
+  }
+
+  if (assumeYes) {
+    return choices
+      .filter((choice) => choice.checked)
+      .map((choice) => choice.value);
+  }
+
+  if (!isInteractive()) {
+    throw missingAnswer(config.message, preset?.flag);
+  }
+
+  return inquirer.checkbox(config, promptContext());
+};
+
+/**
+ * Input prompt that can be answered by a flag or skipped with --yes
+ */
+export const input = async (
+  config: InputConfig,
+  preset?: PresetAnswer<string>
+): Promise<string> => {
+  if (preset?.value !== undefined) {
+    await checkPresetValue(preset.value, preset.flag, config.validate);
+    return preset.value;
+  }
+
+  // The default goes through the same check as a typed answer
+  if (assumeYes && config.default !== undefined) {
+    await checkPresetValue(
+      config.default,
+      preset?.flag ?? "--yes",
+      config.validate
+    );
+    return config.default;
+  }
+
+  if (!isInteractive()) {
+    throw missingAnswer(config.message, preset?.flag);
+  }
+
+  return inquirer.input(config, promptContext());
+};
+
+/**
+ * Confirm prompt that is answered "yes" by --yes
+ */
+export const confirm = async (
+  config: ConfirmConfig,
+  preset?: PresetAnswer<boolean>
+): Promise<boolean> => {
+  if (preset?.value !== undefined) {
+    return preset.value;
+  }
+
+  if (assumeYes) {
+    return config.default ?? true;
+  }
+
+  if (!isInteractive()) {
+    throw missingAnswer(config.message, preset?.flag ?? "--yes");
+  }
+
+  return inquirer.confirm(config, promptContext());
+};
+
+/**
+ * Input prompt for a password or token: typed characters are shown as *
+ * (unless --show-secrets) and the answer is redacted from later output
+ */
+export const password = async (
+  config: PasswordConfig,
+  preset?: PresetAnswer<string>
+): Promise<string> => {
+  let answer: string;
+
+  if (preset?.value !== undefined) {
+    await checkPresetValue(preset.value, preset.flag, config.validate);
+    answer = preset.value;
+  } else if (!isInteractive()) {
+    throw missingAnswer(config.message, preset?.flag);
+  } else {
+    answer = isShowingSecrets()
+      ? await inquirer.input(config, promptContext())
+      : await inquirer.password({ mask: true, ...config }, promptContext());
+  }
+
+  registerSecret(answer.trim());
+  return answer;
+};
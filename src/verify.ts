@@ -0,0 +1,144 @@
+import chalk from "chalk";
+import { ConnectionStringError, DatabaseUnreachableError } from "./errors";
+import { isDryRun } from "./utils/exec";
+import { SSL_MODES, parseConnectionString } from "./utils/connection-string";
+import {
+  PgError,
+  queryOnce,
+  type PgConnectionConfig,
+  type SslMode,
+} from "./utils/pg-client";
+
+export interface ConnectionCheck {
+  /** e.g. "PostgreSQL 16.4" */
+  serverVersion: string;
+  latencyMs: number;
+  tls: boolean;
+  attempts: number;
+}
+
+export interface VerifyOptions {
+  /** Total connection attempts before giving up */
+  attempts?: number;
+  /** Delay before the first retry; doubles on each retry */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  /** Per-attempt timeout */
+  timeoutMs?: number;
+}
+
+/**
+ * Failures that go away on their own while an instance is starting:
+ * network errors, DNS not propagated yet, "the database system is
+ * starting up" (57P03), connection exceptions (08xxx) and
+ * too_many_connections (53300)
+ */
+const isTransient = (error: unknown): boolean => {
+  if (!(error instanceof PgError) || !error.code) return false;
+
+  return (
+    /^E[A-Z]+$/.test(error.code) ||
+    error.code === "57P03" ||
+    error.code === "53300" ||
+    error.code.startsWith("08")
+  );
+};
+
+/**
+ * Connection settings for the wire protocol client. With several hosts
+ * only the first is checked. A driver-specific sslmode (which parsing
+ * only warns about) cannot be checked and is rejected.
+ */
+export const toConnectionConfig = (databaseUrl: string): PgConnectionConfig => {
+  const parsed = parseConnectionString(databaseUrl);
+  const [first] = parsed.hosts;
+  const user = parsed.user || "postgres";
+  const sslMode = parsed.params.sslmode ?? "prefer";
+
+  if (!SSL_MODES.includes(sslMode)) {
+    throw new ConnectionStringError(
+      `Unsupported sslmode "${sslMode}": the connection check supports ${SSL_MODES.join(", ")}`,
+      { hint: "Use --skip-verify to save the URL without checking it." }
+    );
+  }
+
+  return {
+    host: first?.host || "localhost",
+    port: first?.port ?? 5432,
+    user,
+    password: parsed.password,
+    database: parsed.database || user,
+    sslMode: sslMode as SslMode,
+  };
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Open a real connection, run SELECT version() and report the server
+ * version and latency. Retries with exponential backoff while the
+ * failure looks like the instance is still coming up.
+ */
+export const verifyDatabaseConnection = async (
+  databaseUrl: string,
+  options: VerifyOptions = {}
+): Promise<ConnectionCheck | null> => {
+  const {
+    attempts = 6,
+    initialDelayMs = 1000,
+    maxDelayMs = 15_000,
+    timeoutMs = 10_000,
+  } = options;
+
+  console.log(chalk.blueBright("\n🔌 Verifying database connection..."));
+
+  if (isDryRun()) {
+    console.log(chalk.cyan("[dry-run] Skipping connection check"));
+    return null;
+  }
+
+  const config = { ...toConnectionConfig(databaseUrl), timeoutMs };
+  let delay = initialDelayMs;
+
+  for (let attempt = 1; ; attempt++) {
+    const started = Date.now();
+
+    try {
+      const result = await queryOnce(config, "SELECT version()");
+      const latencyMs = Date.now() - started;
+      const serverVersion =
+        result.value?.split(" on ")[0].split(",")[0] ??
+        `PostgreSQL ${result.serverVersion ?? "(unknown version)"}`;
+
+      console.log(
+        chalk.greenBright(
+          `✅ Connected to ${serverVersion} in ${latencyMs} ms` +
+            (result.tls ? " (TLS)" : "")
+        )
+      );
+
+      return { serverVersion, latencyMs, tls: result.tls, attempts: attempt };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+
+      if (!isTransient(error) || attempt >= attempts) {
+        throw new DatabaseUnreachableError(
+          `Could not connect to ${config.host}:${config.port}: ${reason}`,
+          {
+            hint: "Check the connection string, or pass --skip-verify to write it anyway.",
+            cause: error,
+          }
+        );
+      }
+
+      console.log(
+        chalk.yellow(
+          `⏳ Not reachable yet (${reason}). Retrying in ${delay / 1000}s ` +
+            `(attempt ${attempt + 1}/${attempts})...`
+        )
+      );
+      await sleep(delay);
+      delay = Math.min(delay * 2, maxDelayMs);
+    }
+  }
+};
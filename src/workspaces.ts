@@ -0,0 +1,191 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { detectProjectDefaults } from "./detect";
+
+/**
+ * A package in a monorepo
+ */
+export interface Workspace {
+  /** package.json / project.json name, or the directory */
+  name: string;
+  /** Directory relative to the repo root, e.g. "apps/api" */
+  dir: string;
+  /** .env files already in the directory, e.g. [".env", ".env.local"] */
+  envFiles: string[];
+}
+
+const readJson = (path: string): Record<string, any> | undefined => {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * The `packages:` list of pnpm-workspace.yaml (only the flat list of
+ * strings it contains in practice, not general YAML)
+ */
+const readPnpmPackages = (path: string): string[] => {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of readFileSync(path, "utf-8").split(/\r?\n/)) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+    } else if (inPackages && /^\s*-\s*/.test(line)) {
+      patterns.push(
+        line
+          .replace(/^\s*-\s*/, "")
+          .replace(/\s+#.*$/, "")
+          .replace(/^(["'])(.*)\1$/, "$2")
+      );
+    } else if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+
+  return patterns;
+};
+
+/**
+ * Workspace globs from package.json, pnpm-workspace.yaml, nx.json's
+ * layout, or the apps/packages layout turbo and nx use by default
+ */
+const workspacePatterns = (cwd: string): string[] => {
+  const pkg = readJson(join(cwd, "package.json"));
+  const workspaces = pkg?.workspaces;
+  if (Array.isArray(workspaces)) return workspaces;
+  if (Array.isArray(workspaces?.packages)) return workspaces.packages;
+
+  const pnpmPath = join(cwd, "pnpm-workspace.yaml");
+  if (existsSync(pnpmPath)) return readPnpmPackages(pnpmPath);
+
+  const nx = readJson(join(cwd, "nx.json"));
+  if (nx) {
+    const { appsDir = "apps", libsDir = "libs" } = nx.workspaceLayout ?? {};
+    return [`${appsDir}/*`, `${libsDir}/*`, "packages/*"];
+  }
+
+  if (existsSync(join(cwd, "turbo.json"))) return ["apps/*", "packages/*"];
+
+  return [];
+};
+
+const isDirectory = (path: string): boolean => {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+const subdirectories = (cwd: string, dir: string): string[] =>
+  readdirSync(join(cwd, dir || "."))
+    .filter(
+      (name) =>
+        !name.startsWith(".") &&
+        name !== "node_modules" &&
+        isDirectory(join(cwd, dir, name))
+    )
+    .sort()
+    .map((name) => (dir ? `${dir}/${name}` : name));
+
+/**
+ * Directories matching a workspace glob: "*" is one path segment, "**"
+ * any number of them
+ */
+const expandPattern = (cwd: string, pattern: string): string[] => {
+  const segments = pattern.replace(/^\.\//, "").replace(/\/$/, "").split("/");
+  let dirs = [""];
+
+  for (const segment of segments) {
+    if (segment === "**") {
+      // Zero or more levels, bounded to keep huge trees cheap
+      let level = dirs;
+      const all = [...dirs];
+      for (let depth = 0; depth < 4 && level.length; depth++) {
+        level = level.flatMap((dir) => subdirectories(cwd, dir));
+        all.push(...level);
+      }
+      dirs = all;
+    } else if (segment.includes("*")) {
+      const matcher = new RegExp(
+        `^${segment.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`
+      );
+      dirs = dirs.flatMap((dir) =>
+        subdirectories(cwd, dir).filter((path) =>
+          matcher.test(path.split("/").pop()!)
+        )
+      );
+    } else {
+      dirs = dirs
+        .map((dir) => (dir ? `${dir}/${segment}` : segment))
+        .filter((dir) => isDirectory(join(cwd, dir)));
+    }
+  }
+
+  return dirs.filter(Boolean);
+};
+
+/**
+ * .env files in a directory, without backups, examples, encrypted
+ * copies and keys
+ */
+export const listEnvFiles = (dir: string): string[] =>
+  readdirSync(dir)
+    .filter(
+      (name) =>
+        /^\.env(\.|$)/.test(name) &&
+        !/\.(backup|example|sample|enc|key)$/.test(name)
+    )
+    .sort();
+
+/**
+ * The monorepo's packages, in pattern order; "!" patterns exclude
+ */
+export const discoverWorkspaces = (cwd = process.cwd()): Workspace[] => {
+  const patterns = workspacePatterns(cwd);
+  const excluded = new Set(
+    patterns
+      .filter((pattern) => pattern.startsWith("!"))
+      .flatMap((pattern) => expandPattern(cwd, pattern.slice(1)))
+  );
+  const dirs = new Set(
+    patterns
+      .filter((pattern) => !pattern.startsWith("!"))
+      .flatMap((pattern) => expandPattern(cwd, pattern))
+      .filter((dir) => !excluded.has(dir))
+  );
+
+  return [...dirs].flatMap((dir) => {
+    const manifest =
+      readJson(join(cwd, dir, "package.json")) ??
+      readJson(join(cwd, dir, "project.json"));
+    if (!manifest) return [];
+
+    return [
+      {
+        name: typeof manifest.name === "string" ? manifest.name : dir,
+        dir,
+        envFiles: listEnvFiles(join(cwd, dir)),
+      },
+    ];
+  });
+};
+
+/**
+ * The env file to write in a workspace: what its framework or ORM loads,
+ * else an existing .env or .env.local, else a new .env
+ */
+export const workspaceEnvPath = (
+  workspace: Workspace,
+  cwd = process.cwd()
+): string => {
+  const detected = detectProjectDefaults(join(cwd, workspace.dir)).envPath;
+  const file =
+    detected?.value ??
+    [".env", ".env.local"].find((name) => workspace.envFiles.includes(name)) ??
+    ".env";
+  return `${workspace.dir}/${file}`;
+};
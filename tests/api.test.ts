@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setupDatabase, ProvisioningError } from "../src/index";
+import {
+  isDryRun,
+  setCommandRunner,
+  type CommandRunner,
+} from "../src/utils/exec";
+import { isAssumingYes } from "../src/utils/prompts";
+import { isShowingSecrets } from "../src/utils/output";
+
+/**
+ * Stand-in for the docker CLI; `docker run` exits with `runStatus`
+ */
+const fakeDocker = (runStatus = 0) => {
+  const calls: string[][] = [];
+  const runner: CommandRunner = {
+    run: (command, args) => {
+      calls.push([command, ...args]);
+      const status = args[0] === "run" ? runStatus : 0;
+      return { status, stdout: "", stderr: "" };
+    },
+  };
+  return { calls, runner };
+};
+
+describe("setupDatabase", () => {
+  let dir: string;
+  let previousRunner: CommandRunner | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "db-setup-api-"));
+  });
+
+  afterEach(() => {
+    if (previousRunner) setCommandRunner(previousRunner);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("provisions from options alone and returns a typed result", async () => {
+    const docker = fakeDocker();
+    previousRunner = setCommandRunner(docker.runner);
+    const envPath = join(dir, ".env");
+
+    const result = await setupDatabase({
+      provider: "local",
+      name: "api-pg",
+      envPaths: [envPath],
+      variableName: "DATABASE_URL",
+      // No real container is started, so there is nothing to connect to
+      verify: false,
+    });
+
+    expect(result?.providerId).toBe("local");
+    expect(result?.database.resource.containerName).toBe("api-pg");
+    expect(result?.connection).toBeNull();
+    expect(result?.envFiles).toEqual([
+      { envPath, variableName: "DATABASE_URL" },
+    ]);
+    expect(readFileSync(envPath, "utf-8")).toContain(
+      `DATABASE_URL=${result?.databaseUrl}`
+    );
+    // The git safety check may ask git about the env file as well
+    const dockerCalls = docker.calls.filter(
+      ([command]) => command === "docker"
+    );
+    expect(dockerCalls.map((call) => call.slice(0, 2))).toEqual([
+      ["docker", "--version"],
+      ["docker", "run"],
+    ]);
+  });
+
+  test("resolves to null for provider 'later'", async () => {
+    expect(await setupDatabase({ provider: "later" })).toBeNull();
+  });
+
+  test("leaves --yes, --dry-run and --show-secrets as it found them", async () => {
+    await setupDatabase({
+      provider: "later",
+      yes: true,
+      dryRun: true,
+      showSecrets: true,
+    });
+
+    expect(isAssumingYes()).toBe(false);
+    expect(isDryRun()).toBe(false);
+    expect(isShowingSecrets()).toBe(false);
+  });
+
+  test("rejects instead of prompting when stdin is not a TTY", async () => {
+    const isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+
+    try {
+      await expect(setupDatabase({})).rejects.toThrow("stdin is not a TTY");
+    } finally {
+      process.stdin.isTTY = isTTY;
+    }
+  });
+
+  test("rejects with a typed error when provisioning fails", async () => {
+    previousRunner = setCommandRunner(fakeDocker(125).runner);
+
+    await expect(
+      setupDatabase({ provider: "local", envPaths: [join(dir, ".env")] })
+    ).rejects.toBeInstanceOf(ProvisioningError);
+  });
+});
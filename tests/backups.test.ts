@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  backupDirFor,
+  createBackup,
+  listBackups,
+  readBackup,
+} from "../src/backups";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "db-setup-backups-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("backupDirFor", () => {
+  test("mirrors the env file's path inside the project", () => {
+    expect(backupDirFor("apps/api/.env", root)).toBe(
+      join(root, ".db-setup/backups/apps/api/.env")
+    );
+  });
+
+  test("keeps files outside the project apart", () => {
+    expect(backupDirFor("../shared/.env", root)).toBe(
+      join(root, ".db-setup/backups/_/shared/.env")
+    );
+  });
+});
+
+describe("createBackup", () => {
+  test("keeps every version up to the limit, newest first", () => {
+    for (const n of [1, 2, 3, 4]) {
+      createBackup(".env", `A=${n}\n`, 3, root);
+    }
+
+    const backups = listBackups(".env", root);
+    expect(backups.map(readBackup)).toEqual(["A=4\n", "A=3\n", "A=2\n"]);
+    expect(backups[0].createdAt.getTime()).toBeGreaterThan(0);
+  });
+
+  test("keeps nothing with a limit of 0", () => {
+    expect(createBackup(".env", "A=1\n", 0, root)).toBeUndefined();
+    expect(listBackups(".env", root)).toEqual([]);
+  });
+
+  test("ignores files it did not write", () => {
+    createBackup(".env", "A=1\n", 10, root);
+    const dir = backupDirFor(".env", root);
+    writeFileSync(join(dir, "notes.txt"), "hi");
+
+    expect(readdirSync(dir)).toHaveLength(2);
+    expect(listBackups(".env", root)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadConfig, mergeOptions, readConfigFile } from "../src/config";
+import { parseCliArgs } from "../src/utils/cli-args";
+
+let dir: string;
+
+const writeConfig = (name: string, config: unknown): string => {
+  const path = join(dir, name);
+  writeFileSync(path, JSON.stringify(config));
+  return path;
+};
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "db-setup-config-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("readConfigFile", () => {
+  test("reports an unknown key with a suggestion", () => {
+    const path = writeConfig("db-setup.config.json", { provder: "neon" });
+
+    expect(() => readConfigFile(path)).toThrow(
+      `Invalid config in ${path}:\n  - Unknown key "provder" (did you mean "provider"?)`
+    );
+  });
+
+  test("reports wrong types, including nested ones", () => {
+    const path = writeConfig("db-setup.config.json", {
+      verify: "yes",
+      docker: { port: "5432" },
+    });
+
+    expect(() => readConfigFile(path)).toThrow(
+      `Invalid config in ${path}:\n  - "verify" must be a boolean\n  - "docker.port" must be a number`
+    );
+  });
+});
+
+describe("loadConfig", () => {
+  test("fails for a --config path that does not exist", () => {
+    expect(() => loadConfig("missing.json", dir)).toThrow(
+      `Config file not found: ${join(dir, "missing.json")}`
+    );
+  });
+});
+
+describe("mergeOptions", () => {
+  test("flags override config values, unset flags do not", () => {
+    writeConfig("db-setup.config.json", {
+      provider: "neon",
+      name: "from-config",
+      verify: false,
+    });
+
+    const config = loadConfig(undefined, dir);
+    const flags = parseCliArgs(["--provider", "local"]);
+    const merged = mergeOptions(config.options, flags.options);
+
+    expect(merged.provider).toBe("local");
+    expect(merged.name).toBe("from-config");
+    expect(merged.verify).toBe(false);
+  });
+});
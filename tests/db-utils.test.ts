@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CHARACTER_CLASSES,
+  DEFAULT_PASSWORD_POLICY,
+  PASSWORD_POLICIES,
+  describePasswordPolicy,
+  generateIdentifier,
+  generatePassword,
+  needsUrlEscaping,
+  passwordEntropy,
+  type PasswordPolicy,
+} from "../src/utils/db-utils";
+
+const SAMPLES = 500;
+
+const policies: Array<[string, PasswordPolicy]> = [
+  ["default", DEFAULT_PASSWORD_POLICY],
+  ...Object.entries(PASSWORD_POLICIES),
+];
+
+describe("generatePassword", () => {
+  test.each(policies)(
+    "%s policy: length, classes and no URL-escaping",
+    (_, policy) => {
+      for (let i = 0; i < SAMPLES; i++) {
+        const password = generatePassword(policy);
+
+        expect(password).toHaveLength(policy.length);
+        expect(needsUrlEscaping(password)).toBe(false);
+        expect(encodeURIComponent(password)).toBe(password);
+        for (const name of policy.classes) {
+          expect(
+            [...password].some((char) => CHARACTER_CLASSES[name].includes(char))
+          ).toBe(true);
+        }
+      }
+    }
+  );
+
+  test("honours minPerClass", () => {
+    const policy: PasswordPolicy = {
+      length: 12,
+      classes: ["digits", "urlSafeSymbols"],
+      minPerClass: 4,
+    };
+
+    for (let i = 0; i < SAMPLES; i++) {
+      const password = generatePassword(policy);
+      expect(password.replace(/[^0-9]/g, "").length).toBeGreaterThanOrEqual(4);
+      expect(password.replace(/[^-._~]/g, "").length).toBeGreaterThanOrEqual(4);
+    }
+  });
+
+  test("uses every character of the alphabet", () => {
+    const seen = new Set(
+      Array.from({ length: 200 }, () =>
+        generatePassword(DEFAULT_PASSWORD_POLICY)
+      ).join("")
+    );
+    expect(seen.size).toBe(62);
+  });
+
+  test("does not repeat itself", () => {
+    const passwords = new Set(
+      Array.from({ length: SAMPLES }, () => generatePassword())
+    );
+    expect(passwords.size).toBe(SAMPLES);
+  });
+
+  test("refuses symbols that need URL-escaping unless allowed", () => {
+    const policy: PasswordPolicy = {
+      length: 16,
+      classes: ["lower"],
+      extraSymbols: "@/",
+    };
+
+    expect(() => generatePassword(policy)).toThrow(
+      "Password policy includes characters that need URL-escaping: @/"
+    );
+
+    const allowed = { ...policy, allowUrlEscaping: true };
+    const seen = Array.from({ length: SAMPLES }, () =>
+      generatePassword(allowed)
+    ).join("");
+    expect(seen).toMatch(/[@/]/);
+  });
+
+  test("rejects policies that cannot be satisfied", () => {
+    expect(() =>
+      generatePassword({
+        length: 3,
+        classes: ["lower", "upper", "digits"],
+        minPerClass: 2,
+      })
+    ).toThrow("Password length 3 is too short for 6 required characters");
+    expect(() => generatePassword({ length: 8, classes: [] })).toThrow(
+      "needs at least two characters"
+    );
+  });
+});
+
+describe("passwordEntropy", () => {
+  test("is length × log2(alphabet size)", () => {
+    expect(
+      passwordEntropy({ length: 24, classes: ["lower", "upper", "digits"] })
+    ).toBeCloseTo(24 * Math.log2(62));
+    expect(passwordEntropy(PASSWORD_POLICIES.local)).toBeCloseTo(
+      32 * Math.log2(66)
+    );
+  });
+
+  test("is described for output", () => {
+    expect(describePasswordPolicy(DEFAULT_PASSWORD_POLICY)).toBe(
+      "32 characters, ~190 bits of entropy"
+    );
+  });
+});
+
+describe("generateIdentifier", () => {
+  test("is lowercase alphanumeric", () => {
+    expect(generateIdentifier(6)).toMatch(/^[a-z0-9]{6}$/);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { detectProjectDefaults } from "../src/detect";
+
+let dirs: string[] = [];
+
+const project = (files: Record<string, string>): string => {
+  const dir = mkdtempSync(join(tmpdir(), "db-setup-detect-"));
+  dirs.push(dir);
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(dir, name)), { recursive: true });
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+};
+
+const PRISMA_SCHEMA = `generator client {
+  provider = "prisma-client-js"
+}
+
+datasource db {
+  provider  = "postgresql"
+  url       = env("POSTGRES_PRISMA_URL")
+  directUrl = env("POSTGRES_URL_NON_POOLING")
+}
+`;
+
+afterEach(() => {
+  for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+  dirs = [];
+});
+
+describe("detectProjectDefaults", () => {
+  test("finds nothing in an empty directory", () => {
+    expect(detectProjectDefaults(project({}))).toEqual({});
+  });
+
+  test("Next.js uses .env.local", () => {
+    expect(
+      detectProjectDefaults(project({ "next.config.mjs": "export default {}" }))
+    ).toEqual({
+      envPath: { value: ".env.local", reason: "Next.js loads .env.local" },
+    });
+    expect(
+      detectProjectDefaults(
+        project({ "package.json": '{"dependencies":{"nuxt":"^3.0.0"}}' })
+      ).envPath?.value
+    ).toBe(".env");
+  });
+
+  test("Prisma's datasource variable and .env win over Next.js", () => {
+    const dir = project({
+      "next.config.ts": "export default {}",
+      "prisma/schema.prisma": PRISMA_SCHEMA,
+    });
+
+    expect(detectProjectDefaults(dir)).toEqual({
+      envPath: { value: ".env", reason: "the Prisma CLI only loads .env" },
+      variableName: {
+        value: "POSTGRES_PRISMA_URL",
+        reason: 'prisma/schema.prisma reads env("POSTGRES_PRISMA_URL")',
+      },
+    });
+  });
+
+  test("reads a multi-file schema folder named in package.json", () => {
+    const dir = project({
+      "package.json": '{"prisma":{"schema":"db/schema"}}',
+      "db/schema/models.prisma": "model User { id Int @id }",
+      "db/schema/base.prisma": PRISMA_SCHEMA.replace(
+        "POSTGRES_PRISMA_URL",
+        "APP_DB"
+      ),
+    });
+
+    expect(detectProjectDefaults(dir).variableName?.value).toBe("APP_DB");
+  });
+
+  test("reads drizzle.config's variable and dotenv path", () => {
+    const dir = project({
+      "drizzle.config.ts": `import { config } from "dotenv";
+config({ path: "./.env.development" });
+
+export default defineConfig({
+  dbCredentials: { url: process.env["PG_URL"]! },
+});
+`,
+    });
+
+    expect(detectProjectDefaults(dir)).toEqual({
+      envPath: {
+        value: ".env.development",
+        reason: "drizzle.config.ts loads .env.development",
+      },
+      variableName: {
+        value: "PG_URL",
+        reason: "drizzle.config.ts reads process.env.PG_URL",
+      },
+    });
+  });
+
+  test("drizzle.config importing dotenv/config loads .env", () => {
+    const dir = project({
+      "next.config.js": "module.exports = {}",
+      "drizzle.config.ts":
+        'import "dotenv/config";\nexport default { dbCredentials: { url: process.env.DATABASE_URL } };',
+    });
+
+    expect(detectProjectDefaults(dir).envPath?.value).toBe(".env");
+  });
+});
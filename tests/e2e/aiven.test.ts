@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createSandbox, type CliSandbox, type FakeRule } from "./helpers";
+
+const ARGS = [
+  "--provider",
+  "aiven",
+  "--region",
+  "aws-eu-west-1",
+  "--name",
+  "my-pg",
+  "--yes",
+];
+const SERVICE_URI =
+  "postgres://avnadmin:pw@my-pg-acme.aivencloud.com:12345/defaultdb?sslmode=require";
+const PASTED_URL = "postgresql://user:pw@pasted.example.com:5432/app";
+
+const aivenRules = (overrides: FakeRule[] = []): FakeRule[] => [
+  ...overrides,
+  { match: "avn --version", stdout: "aiven-client 4.0.0\n" },
+  { match: "avn user info", stdout: "user@example.com\n" },
+  {
+    match: "avn project list --json",
+    stdout: JSON.stringify([{ project_name: "acme" }]),
+  },
+  { match: "avn service create my-pg" },
+  {
+    match: "avn service get my-pg --project acme --json",
+    stdout: JSON.stringify({
+      state: "RUNNING",
+      connection_info: { pg_uri: [SERVICE_URI] },
+    }),
+  },
+];
+
+describe("aiven", () => {
+  let sandbox: CliSandbox;
+
+  beforeEach(() => {
+    sandbox = createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.cleanup();
+  });
+
+  test("creates a hobbyist service and writes its service URI", () => {
+    const run = sandbox.run(ARGS, aivenRules());
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Using project: acme");
+    expect(run.stdout).toContain("Service is now running!");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${SERVICE_URI}`);
+    expect(run.commandLines).toContain(
+      "avn service create my-pg --project acme --service-type pg --cloud aws-eu-west-1 --plan hobbyist"
+    );
+  }, 30_000);
+
+  test("does not wait for the service in a dry run", () => {
+    const startedAt = Date.now();
+    const run = sandbox.run([...ARGS, "--dry-run"], aivenRules());
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Service is now running!");
+    expect(run.commandLines).not.toContain(
+      "avn service create my-pg --project acme --service-type pg --cloud aws-eu-west-1 --plan hobbyist"
+    );
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  test("falls back to python -m aiven.client when avn is not on PATH", () => {
+    const run = sandbox.run(
+      ARGS,
+      aivenRules([
+        {
+          match: "python -m aiven.client --version",
+          stdout: "aiven-client 4.0.0\n",
+        },
+        { match: "python -m aiven.client user info", exitCode: 1 },
+        { match: "avn", exitCode: 127 },
+      ])
+    );
+
+    expect(run.stdout).toContain(
+      "Using 'python -m aiven.client' to run Aiven CLI commands."
+    );
+    expect(run.commandLines).toContain("python -m aiven.client user info");
+  });
+
+  test("switches to manual setup when the CLI cannot be installed", () => {
+    const run = sandbox.run(
+      [...ARGS, "--url", PASTED_URL],
+      [
+        { match: "pip install aiven-client", exitCode: 1 },
+        { match: "pip3 install aiven-client", exitCode: 1 },
+      ]
+    );
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Failed to install Aiven CLI automatically.");
+    expect(run.stdout).toContain("Switching to manual setup");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${PASTED_URL}`);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Body of every fake executable put on PATH by the e2e helpers.
+ *
+ * Usage: fake-cli.ts <command-name> [args...]
+ * Reads the scenario from $FAKE_CLI_SCENARIO, appends the call to
+ * $FAKE_CLI_LOG and answers with the first rule whose `match` is a
+ * prefix of the command line.
+ */
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join } from "path";
+import type { FakeCall, FakeRule } from "./helpers";
+
+const [command, ...args] = process.argv.slice(2);
+const line = [command, ...args].join(" ");
+
+const rules: FakeRule[] = JSON.parse(
+  readFileSync(process.env.FAKE_CLI_SCENARIO!, "utf-8")
+);
+const logPath = process.env.FAKE_CLI_LOG!;
+const previous: FakeCall[] = existsSync(logPath)
+  ? readFileSync(logPath, "utf-8")
+      .split("\n")
+      .filter(Boolean)
+      .map((entry) => JSON.parse(entry))
+  : [];
+
+const ruleIndex = rules.findIndex((rule, index) => {
+  if (line !== rule.match && !line.startsWith(`${rule.match} `)) {
+    return false;
+  }
+  const used = previous.filter((call) => call.rule === index).length;
+  return rule.times === undefined || used < rule.times;
+});
+
+const call: FakeCall = { command, args, cwd: process.cwd(), rule: ruleIndex };
+appendFileSync(logPath, `${JSON.stringify(call)}\n`);
+
+if (ruleIndex === -1) {
+  process.stderr.write(`${command}: command not found\n`);
+  process.exit(127);
+}
+
+const rule = rules[ruleIndex];
+
+for (const [file, content] of Object.entries(rule.files ?? {})) {
+  const target = join(process.cwd(), file);
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileSync(target, content);
+}
+
+if (rule.stdout) process.stdout.write(rule.stdout);
+if (rule.stderr) process.stderr.write(rule.stderr);
+process.exit(rule.exitCode ?? 0);
@@ -0,0 +1,159 @@
+import { spawnSync } from "child_process";
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+
+const CLI_ENTRY = join(import.meta.dir, "../../src/cli.ts");
+const FAKE_CLI = join(import.meta.dir, "fake-cli.ts");
+
+/**
+ * Every executable a provider may look up; anything without a matching
+ * rule behaves as "command not found"
+ */
+const FAKE_COMMANDS = [
+  "npx",
+  "bunx",
+  "bun",
+  "npm",
+  "avn",
+  "python",
+  "python3",
+  "pip",
+  "pip3",
+  "supabase",
+  "vercel",
+  "render",
+  "docker",
+  "git",
+  "open",
+  "xdg-open",
+  "vi",
+];
+
+/**
+ * Scripted answer for a command line starting with `match`,
+ * e.g. "npx neonctl me"
+ */
+export interface FakeRule {
+  match: string;
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+  /** Only answer this many calls, then fall through to later rules */
+  times?: number;
+  /** Files to create relative to the command's working directory */
+  files?: Record<string, string>;
+}
+
+export interface FakeCall {
+  command: string;
+  args: string[];
+  cwd: string;
+  /** Index of the rule that answered, -1 if none matched */
+  rule: number;
+}
+
+export interface CliRun {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  /** Every fake command invocation, in order */
+  calls: FakeCall[];
+  /** Command lines of all calls, e.g. "docker --version" */
+  commandLines: string[];
+  /** Read a file from the project directory, or null if missing */
+  readFile: (name: string) => string | null;
+}
+
+export interface CliSandbox {
+  projectDir: string;
+  run: (args: string[], rules: FakeRule[]) => CliRun;
+  cleanup: () => void;
+}
+
+/**
+ * Temporary project + home directory with fake provider CLIs on PATH
+ */
+export const createSandbox = (
+  files: Record<string, string> = {}
+): CliSandbox => {
+  const root = mkdtempSync(join(tmpdir(), "db-setup-e2e-"));
+  const projectDir = join(root, "project");
+  const homeDir = join(root, "home");
+  const binDir = join(root, "bin");
+  for (const dir of [projectDir, homeDir, binDir]) {
+    mkdirSync(dir);
+  }
+
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(projectDir, name)), { recursive: true });
+    writeFileSync(join(projectDir, name), content);
+  }
+
+  for (const name of FAKE_COMMANDS) {
+    const script = join(binDir, name);
+    writeFileSync(
+      script,
+      `#!/bin/sh\nexec "${process.execPath}" "${FAKE_CLI}" "${name}" "$@"\n`
+    );
+    chmodSync(script, 0o755);
+  }
+
+  const run = (args: string[], rules: FakeRule[]): CliRun => {
+    const scenarioPath = join(root, "scenario.json");
+    const logPath = join(root, "calls.jsonl");
+    writeFileSync(scenarioPath, JSON.stringify(rules));
+    rmSync(logPath, { force: true });
+
+    // Fake providers hand out URLs nothing listens on; subcommands such
+    // as `format` take their own flags
+    const isSubcommand = args.length > 0 && !args[0].startsWith("-");
+    const cliArgs = isSubcommand
+      ? [CLI_ENTRY, ...args]
+      : [CLI_ENTRY, "--skip-verify", ...args];
+    const result = spawnSync(process.execPath, cliArgs, {
+      cwd: projectDir,
+      encoding: "utf-8",
+      timeout: 60_000,
+      env: {
+        PATH: binDir,
+        HOME: homeDir,
+        FAKE_CLI_SCENARIO: scenarioPath,
+        FAKE_CLI_LOG: logPath,
+      },
+    });
+
+    const calls: FakeCall[] = existsSync(logPath)
+      ? readFileSync(logPath, "utf-8")
+          .split("\n")
+          .filter(Boolean)
+          .map((line) => JSON.parse(line))
+      : [];
+
+    return {
+      exitCode: result.status,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      calls,
+      commandLines: calls.map((call) => [call.command, ...call.args].join(" ")),
+      readFile: (name) => {
+        const path = join(projectDir, name);
+        return existsSync(path) ? readFileSync(path, "utf-8") : null;
+      },
+    };
+  };
+
+  return {
+    projectDir,
+    run,
+    cleanup: () => rmSync(root, { recursive: true, force: true }),
+  };
+};
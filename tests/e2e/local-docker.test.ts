@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { EXIT_CODES } from "../../src/errors";
+import { createSandbox, type CliSandbox, type FakeRule } from "./helpers";
+
+const ARGS = ["--provider", "local", "--name", "test-pg", "--yes"];
+
+const dockerRules = (overrides: FakeRule[] = []): FakeRule[] => [
+  ...overrides,
+  { match: "docker --version", stdout: "Docker version 27.0.0\n" },
+  { match: "docker run", stdout: "3f2a9c\n" },
+];
+
+describe("local docker", () => {
+  let sandbox: CliSandbox;
+
+  beforeEach(() => {
+    sandbox = createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.cleanup();
+  });
+
+  test("starts a container and writes a localhost URL", () => {
+    const run = sandbox.run(ARGS, dockerRules());
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("To stop: docker stop test-pg");
+
+    const env = run.readFile(".env");
+    const password = env?.match(
+      /postgres:([A-Za-z0-9._~-]{32})@localhost:5432\/zerostarter/
+    )?.[1];
+    expect(password).toBeDefined();
+    expect(run.stdout).not.toContain(password!);
+
+    const dockerRun = run.calls.find(
+      (call) => call.command === "docker" && call.args[0] === "run"
+    );
+    expect(dockerRun?.args).toEqual([
+      "run",
+      "--name",
+      "test-pg",
+      "-e",
+      "POSTGRES_USER=postgres",
+      "-e",
+      `POSTGRES_PASSWORD=${password}`,
+      "-e",
+      "POSTGRES_DB=zerostarter",
+      "-p",
+      "5432:5432",
+      "-d",
+      "postgres:16-alpine",
+    ]);
+  });
+
+  test("uses container settings from the config file", () => {
+    sandbox.cleanup();
+    sandbox = createSandbox({
+      "db-setup.config.json": JSON.stringify({
+        docker: {
+          image: "postgres:17",
+          port: 5433,
+          user: "app",
+          database: "appdb",
+        },
+      }),
+    });
+
+    const run = sandbox.run(ARGS, dockerRules());
+
+    expect(run.exitCode).toBe(0);
+    expect(run.readFile(".env")).toMatch(
+      /DATABASE_URL=postgresql:\/\/app:[\w.~-]+@localhost:5433\/appdb/
+    );
+    expect(
+      run.commandLines.find((line) => line.startsWith("docker run"))
+    ).toEndWith("-p 5433:5432 -d postgres:17");
+  });
+
+  test("fails when docker is not installed", () => {
+    const run = sandbox.run(ARGS, []);
+
+    expect(run.exitCode).toBe(EXIT_CODES.MISSING_CLI);
+    expect(run.stderr).toContain("Docker is not installed or not on PATH");
+    expect(run.stdout).toContain("Install Docker Desktop");
+    expect(run.readFile(".env")).toBeNull();
+  });
+
+  test("reports the failure kind in --json mode", () => {
+    const run = sandbox.run([...ARGS, "--json"], []);
+
+    expect(run.exitCode).toBe(EXIT_CODES.MISSING_CLI);
+    expect(JSON.parse(run.stdout)).toMatchObject({
+      status: "error",
+      error: { name: "MissingCliError", code: "MISSING_CLI" },
+    });
+  });
+
+  test("fails when the container cannot be created", () => {
+    const run = sandbox.run(
+      ARGS,
+      dockerRules([
+        {
+          match: "docker run",
+          exitCode: 125,
+          stderr: "port is already allocated\n",
+        },
+      ])
+    );
+
+    expect(run.exitCode).toBe(EXIT_CODES.PROVISIONING_FAILED);
+    expect(run.stderr).toContain("Failed to create PostgreSQL container");
+    expect(run.readFile(".env")).toBeNull();
+  });
+
+  test("removes the container when the env file cannot be written", () => {
+    sandbox.cleanup();
+    sandbox = createSandbox({ ".env": "API_KEY=abc\n" });
+
+    const run = sandbox.run(
+      ARGS,
+      dockerRules([
+        { match: "git rev-parse", stdout: `${sandbox.projectDir}\n` },
+        { match: "git ls-files", stdout: ".env\n" },
+        { match: "docker rm -f test-pg", stdout: "test-pg\n" },
+      ])
+    );
+
+    expect(run.exitCode).toBe(EXIT_CODES.TRACKED_ENV_FILE);
+    expect(run.stdout).toContain(
+      "Setup failed after the Local Docker PostgreSQL database was created"
+    );
+    expect(run.commandLines).toContain("docker rm -f test-pg");
+    expect(run.readFile(".env")).toBe("API_KEY=abc\n");
+  });
+
+  test("keeps the original error when the container cannot be removed", () => {
+    sandbox.cleanup();
+    sandbox = createSandbox({ ".env": "API_KEY=abc\n" });
+
+    const run = sandbox.run(
+      ARGS,
+      dockerRules([
+        { match: "git rev-parse", stdout: `${sandbox.projectDir}\n` },
+        { match: "git ls-files", stdout: ".env\n" },
+        { match: "docker rm -f test-pg", exitCode: 1 },
+      ])
+    );
+
+    expect(run.exitCode).toBe(EXIT_CODES.TRACKED_ENV_FILE);
+    expect(run.stdout).toContain(
+      "Could not remove the Local Docker PostgreSQL database: Failed to remove container 'test-pg'. Delete it yourself."
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { EXIT_CODES } from "../../src/errors";
+import { createSandbox, type CliSandbox, type FakeRule } from "./helpers";
+
+const ARGS = ["--provider", "railway", "--yes"];
+const INTERNAL_URL =
+  "postgresql://postgres:pw@postgres.railway.internal:5432/railway";
+const PUBLIC_URL =
+  "postgresql://postgres:pw@shuttle.proxy.rlwy.net:41234/railway";
+
+const railwayRules = (overrides: FakeRule[] = []): FakeRule[] => [
+  ...overrides,
+  { match: "bunx @railway/cli --version", stdout: "railway 4.0.0\n" },
+  {
+    match: "bunx @railway/cli whoami",
+    stdout: "Logged in as user@example.com\n",
+  },
+  { match: "bunx @railway/cli init" },
+  { match: "bunx @railway/cli add --database postgres" },
+  { match: "bunx @railway/cli link" },
+  {
+    match: "bunx @railway/cli variables --kv",
+    stdout: `DATABASE_URL=${INTERNAL_URL}\nDATABASE_PUBLIC_URL=${PUBLIC_URL}\n`,
+  },
+];
+
+describe("railway", () => {
+  let sandbox: CliSandbox;
+
+  beforeEach(() => {
+    sandbox = createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.cleanup();
+  });
+
+  test("adds PostgreSQL and writes the public URL", () => {
+    const run = sandbox.run(ARGS, railwayRules());
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Found DATABASE_PUBLIC_URL!");
+    expect(run.stdout).toContain(INTERNAL_URL.replace(":pw@", ":***@"));
+    expect(run.stdout).not.toContain(":pw@");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${PUBLIC_URL}`);
+    expect(run.commandLines).not.toContain("bunx @railway/cli login");
+  });
+
+  test("prints the URLs in full with --show-secrets", () => {
+    const run = sandbox.run([...ARGS, "--show-secrets"], railwayRules());
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain(INTERNAL_URL);
+    expect(run.stdout).toContain(`Your DATABASE_URL is:\n${PUBLIC_URL}`);
+  });
+
+  test("installs the CLI and logs in when needed", () => {
+    const run = sandbox.run(
+      ARGS,
+      railwayRules([
+        { match: "bunx @railway/cli --version", exitCode: 1, times: 1 },
+        { match: "bun install @railway/cli --no-save" },
+        { match: "bunx @railway/cli whoami", exitCode: 1, times: 1 },
+        { match: "bunx @railway/cli login" },
+      ])
+    );
+
+    expect(run.exitCode).toBe(0);
+    expect(run.commandLines).toContain("bun install @railway/cli --no-save");
+    expect(run.commandLines).toContain("bunx @railway/cli login");
+  });
+
+  test("fails when the project cannot be initialized", () => {
+    const run = sandbox.run(
+      ARGS,
+      railwayRules([{ match: "bunx @railway/cli init", exitCode: 1 }])
+    );
+
+    expect(run.exitCode).toBe(EXIT_CODES.PROVISIONING_FAILED);
+    expect(run.stderr).toContain("Failed to initialize Railway project.");
+    expect(run.readFile(".env")).toBeNull();
+  });
+});
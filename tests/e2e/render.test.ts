@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createSandbox, type CliSandbox } from "./helpers";
+
+const PASTED_URL =
+  "postgresql://app:pw@dpg-abc123-a.oregon-postgres.render.com/app";
+const ARGS = ["--provider", "render", "--url", PASTED_URL, "--yes"];
+
+describe("render", () => {
+  let sandbox: CliSandbox;
+
+  beforeEach(() => {
+    sandbox = createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.cleanup();
+  });
+
+  test("switches to manual setup when the CLI cannot be installed", () => {
+    const run = sandbox.run(ARGS, [
+      { match: "npm install -g render", exitCode: 1 },
+    ]);
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Failed to install Render CLI automatically.");
+    expect(run.stdout).toContain("Manual Render PostgreSQL Setup");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${PASTED_URL}`);
+  });
+
+  test("switches to manual setup when authentication fails", () => {
+    const run = sandbox.run(ARGS, [
+      { match: "render --version", stdout: "render 1.0.0\n" },
+      { match: "render whoami", exitCode: 1 },
+      { match: "render login", exitCode: 1 },
+    ]);
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Authentication failed.");
+    expect(run.stdout).toContain("Switching to manual setup");
+    expect(run.commandLines).not.toContain("render services create postgres");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${PASTED_URL}`);
+  });
+
+  test("reports the CLI failure when nobody can answer the manual setup", () => {
+    const run = sandbox.run(
+      ["--provider", "render", "--yes"],
+      [{ match: "npm install -g render", exitCode: 1 }]
+    );
+
+    expect(run.exitCode).toBe(3);
+    expect(run.stderr).toContain(
+      "Render PostgreSQL CLI is not installed or not on PATH"
+    );
+    expect(run.stdout).not.toContain("Manual Render PostgreSQL Setup");
+    expect(run.readFile(".env")).toBeNull();
+  });
+
+  test("reports why provisioning failed before switching to manual setup", () => {
+    const run = sandbox.run(ARGS, [
+      { match: "render --version", stdout: "render 1.0.0\n" },
+      { match: "render whoami", stdout: "me@example.com\n" },
+      {
+        match: "render services create postgres",
+        stderr: "plan limit reached\n",
+        exitCode: 1,
+      },
+    ]);
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("CLI setup failed:");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${PASTED_URL}`);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { EXIT_CODES } from "../../src/errors";
+import { createSandbox, type CliSandbox, type FakeRule } from "./helpers";
+
+const ARGS = ["--provider", "supabase", "--name", "my-app", "--yes"];
+const ORGS = "  ID     | NAME\n  -------|------\n  org-1  | Acme\n";
+
+const supabaseRules = (overrides: FakeRule[] = []): FakeRule[] => [
+  ...overrides,
+  { match: "npx --version", stdout: "10.0.0\n" },
+  { match: "npx supabase orgs list", stdout: ORGS },
+  { match: "npx supabase projects create", stdout: "Created project\n" },
+  {
+    match: "npx supabase projects list",
+    stdout: JSON.stringify([
+      { id: "abcdefgh", name: "my-app", region: "eu-central-1" },
+    ]),
+  },
+];
+
+describe("supabase", () => {
+  let sandbox: CliSandbox;
+
+  beforeEach(() => {
+    sandbox = createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.cleanup();
+  });
+
+  test("creates a project and writes the session pooler URL", () => {
+    const run = sandbox.run(ARGS, supabaseRules());
+
+    expect(run.exitCode).toBe(0);
+    expect(run.readFile(".env")).toMatch(
+      /^DATABASE_URL=postgresql:\/\/postgres\.abcdefgh:[A-Za-z0-9]{32}@aws-1-eu-central-1\.pooler\.supabase\.com:5432\/postgres$/m
+    );
+
+    const create = run.calls.find(
+      (call) => call.args.slice(0, 3).join(" ") === "supabase projects create"
+    );
+    expect(create?.args.slice(3, 5)).toEqual(["my-app", "--db-password"]);
+
+    // The generated password never reaches the terminal
+    const password = create!.args[5];
+    expect(run.stdout).toContain("Generated DB password: ***");
+    expect(run.stdout).not.toContain(password);
+  });
+
+  test("launches login when not authenticated", () => {
+    const run = sandbox.run(
+      ARGS,
+      supabaseRules([
+        { match: "npx supabase orgs list", exitCode: 1, times: 1 },
+        { match: "npx supabase login" },
+      ])
+    );
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("not logged in");
+    expect(run.commandLines).toContain("npx supabase login");
+  });
+
+  test("fails when the new project is not in the project list", () => {
+    const run = sandbox.run(
+      ARGS,
+      supabaseRules([{ match: "npx supabase projects list", stdout: "[]" }])
+    );
+
+    expect(run.exitCode).toBe(EXIT_CODES.PROVISIONING_FAILED);
+    expect(run.stderr).toContain("Failed to find new Supabase project.");
+    expect(run.readFile(".env")).toBeNull();
+  });
+
+  test("fails when project creation fails", () => {
+    const run = sandbox.run(
+      ARGS,
+      supabaseRules([{ match: "npx supabase projects create", exitCode: 1 }])
+    );
+
+    expect(run.exitCode).toBe(EXIT_CODES.PROVISIONING_FAILED);
+    expect(run.stderr).toContain("Failed to create Supabase project.");
+    expect(run.commandLines).not.toContain(
+      "npx supabase projects list --output json"
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createSandbox, type CliSandbox, type FakeRule } from "./helpers";
+
+const ARGS = ["--provider", "vercel", "--name", "my-store", "--yes"];
+const POSTGRES_URL =
+  "postgres://default:pw@ep-quiet-1.us-east-1.postgres.vercel-storage.com:5432/verceldb?sslmode=require";
+const PASTED_URL = "postgresql://user:pw@pasted.example.com:5432/app";
+
+const vercelRules = (overrides: FakeRule[] = []): FakeRule[] => [
+  ...overrides,
+  { match: "vercel --version", stdout: "Vercel CLI 37.0.0\n" },
+  { match: "vercel whoami", stdout: "someone\n" },
+  {
+    match: "vercel link",
+    files: {
+      ".vercel/project.json": JSON.stringify({
+        projectId: "prj_1",
+        orgId: "team_1",
+      }),
+    },
+  },
+  { match: "vercel postgres create" },
+  {
+    match: "vercel env pull .env.local",
+    files: { ".env.local": `POSTGRES_URL="${POSTGRES_URL}"\n` },
+  },
+];
+
+describe("vercel", () => {
+  let sandbox: CliSandbox;
+
+  beforeEach(() => {
+    sandbox = createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.cleanup();
+  });
+
+  test("links a temporary project and writes the pulled POSTGRES_URL", () => {
+    const run = sandbox.run(ARGS, vercelRules());
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Project linked successfully!");
+    expect(run.stdout).toContain("Connection string retrieved!");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${POSTGRES_URL}`);
+
+    // Linking happens in a throwaway directory, not the user's project
+    const link = run.calls.find((call) => call.args[0] === "link");
+    expect(link?.cwd).not.toBe(sandbox.projectDir);
+  }, 30_000);
+
+  test("takes the pooled URL for --preset prisma from POSTGRES_PRISMA_URL", () => {
+    const prismaUrl =
+      "postgres://default:pw@ep-quiet-1-pooler.us-east-1.postgres.vercel-storage.com:5432/verceldb?sslmode=require&pgbouncer=true&connect_timeout=15";
+    const directUrl =
+      "postgres://default:pw@ep-quiet-1.us-east-1.postgres.vercel-storage.com:5432/verceldb?sslmode=require";
+
+    const run = sandbox.run(
+      [...ARGS, "--preset", "prisma"],
+      vercelRules([
+        {
+          match: "vercel env pull .env.local",
+          files: {
+            ".env.local": [
+              `POSTGRES_URL="${POSTGRES_URL}"`,
+              `POSTGRES_PRISMA_URL="${prismaUrl}"`,
+              `POSTGRES_URL_NON_POOLING="${directUrl}"`,
+              "",
+            ].join("\n"),
+          },
+        },
+      ])
+    );
+
+    expect(run.exitCode).toBe(0);
+    const env = run.readFile(".env");
+    expect(env).toContain(`DATABASE_URL=${prismaUrl}\n`);
+    expect(env).toContain(`DIRECT_URL=${directUrl}\n`);
+  }, 30_000);
+
+  test("switches to manual setup when linking leaves no project.json", () => {
+    const run = sandbox.run(
+      [...ARGS, "--url", PASTED_URL],
+      vercelRules([{ match: "vercel link" }])
+    );
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain(".vercel directory not created.");
+    expect(run.stdout).toContain("Switching to manual setup");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${PASTED_URL}`);
+  });
+
+  test("switches to manual setup when authentication fails", () => {
+    const run = sandbox.run(
+      [...ARGS, "--url", PASTED_URL],
+      vercelRules([
+        { match: "vercel whoami", exitCode: 1 },
+        { match: "vercel login", exitCode: 1 },
+      ])
+    );
+
+    expect(run.exitCode).toBe(0);
+    expect(run.stdout).toContain("Authentication failed.");
+    expect(run.commandLines).not.toContain("vercel link");
+    expect(run.readFile(".env")).toContain(`DATABASE_URL=${PASTED_URL}`);
+  });
+});
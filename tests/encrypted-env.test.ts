@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import {
+  decryptEnv,
+  encryptedEnvPath,
+  encryptEnv,
+  ENV_KEY_VARIABLE,
+  isEncryptedEnv,
+  loadEnvKey,
+  loaderSnippet,
+  readEnvFile,
+} from "../src/encrypted-env";
+import { envCommand } from "../src/commands/env";
+import { setCommandRunner } from "../src/utils/exec";
+import { listBackups } from "../src/backups";
+
+const KEY = Buffer.alloc(32, 7);
+const CONTENT =
+  "# Database Configuration\nDATABASE_URL=postgresql://app:s3cret@db:5432/app\n";
+
+let dir: string;
+const cwd = process.cwd();
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "db-setup-encrypted-"));
+  process.chdir(dir);
+  delete process.env[ENV_KEY_VARIABLE];
+});
+
+afterEach(() => {
+  process.chdir(cwd);
+  delete process.env[ENV_KEY_VARIABLE];
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("encryptEnv", () => {
+  test("round-trips without leaking the values", () => {
+    const encrypted = encryptEnv(CONTENT, KEY);
+
+    expect(isEncryptedEnv(encrypted)).toBe(true);
+    expect(isEncryptedEnv(CONTENT)).toBe(false);
+    expect(encrypted).not.toContain("s3cret");
+    expect(encrypted).not.toContain("DATABASE_URL");
+    expect(decryptEnv(encrypted, KEY)).toBe(CONTENT);
+  });
+
+  test("uses a fresh IV every time", () => {
+    expect(encryptEnv(CONTENT, KEY)).not.toBe(encryptEnv(CONTENT, KEY));
+  });
+
+  test("rejects a wrong key and a modified file", () => {
+    const encrypted = encryptEnv(CONTENT, KEY);
+    const tampered = encrypted.replace(
+      /.(\n)$/,
+      (c, eol) => (c === "A" ? "B" : "A") + eol
+    );
+
+    expect(() =>
+      decryptEnv(encrypted, Buffer.alloc(32, 1), ".env.enc")
+    ).toThrow(
+      "Cannot decrypt .env.enc: the key does not match or the file was modified"
+    );
+    expect(() => decryptEnv(tampered, KEY)).toThrow("Cannot decrypt");
+    expect(() => decryptEnv(CONTENT, KEY, ".env")).toThrow(
+      ".env is not an encrypted env file"
+    );
+  });
+});
+
+describe("loadEnvKey", () => {
+  test("prefers the environment variable", () => {
+    writeFileSync(".env.key", Buffer.alloc(32, 1).toString("base64"));
+    process.env[ENV_KEY_VARIABLE] = KEY.toString("base64");
+
+    expect(loadEnvKey()).toEqual({ key: KEY });
+  });
+
+  test("reads the key file, or generates it when asked", () => {
+    expect(() => loadEnvKey()).toThrow(
+      `set ${ENV_KEY_VARIABLE} or create .env.key`
+    );
+
+    const created = loadEnvKey("keys/app.key", { create: true });
+    expect(created.created).toBe(true);
+    expect(created.key).toHaveLength(32);
+    expect(statSync(join(dir, "keys/app.key")).mode & 0o777).toBe(0o600);
+
+    expect(loadEnvKey("keys/app.key").key).toEqual(created.key);
+  });
+
+  test("rejects a key of the wrong size", () => {
+    process.env[ENV_KEY_VARIABLE] = "c2hvcnQ=";
+
+    expect(() => loadEnvKey()).toThrow("not a base64-encoded 256-bit key");
+  });
+});
+
+describe("readEnvFile", () => {
+  test("decrypts encrypted files and reads plain ones as they are", () => {
+    writeFileSync(".env.key", KEY.toString("base64"));
+    writeFileSync(".env.enc", encryptEnv(CONTENT, KEY));
+    writeFileSync(".env", "A=1\n");
+
+    expect(readEnvFile(".env.enc")).toBe(CONTENT);
+    expect(readEnvFile(".env")).toBe("A=1\n");
+    expect(readEnvFile(".env.missing")).toBe("");
+  });
+});
+
+test("encryptedEnvPath adds .enc once", () => {
+  expect(encryptedEnvPath(".env")).toBe(".env.enc");
+  expect(encryptedEnvPath("apps/api/.env.enc")).toBe("apps/api/.env.enc");
+});
+
+test("the loader snippet sets variables from the encrypted file", async () => {
+  writeFileSync(".env.key", KEY.toString("base64"));
+  writeFileSync(".env.enc", encryptEnv(`${CONTENT}PORT=3000\n`, KEY));
+  writeFileSync("loader.mjs", loaderSnippet());
+  process.env.PORT = "8080";
+
+  try {
+    const { loadEncryptedEnv } = await import(
+      pathToFileURL(join(dir, "loader.mjs")).href
+    );
+    loadEncryptedEnv();
+
+    expect(process.env.DATABASE_URL).toBe(
+      "postgresql://app:s3cret@db:5432/app"
+    );
+    expect(process.env.PORT).toBe("8080");
+  } finally {
+    delete process.env.DATABASE_URL;
+    delete process.env.PORT;
+  }
+});
+
+describe("db-setup env edit", () => {
+  const editWith = async (change: (content: string) => string) => {
+    const previous = setCommandRunner({
+      run: (command, args) => {
+        // Not a git repository: the key file check has nothing to do
+        if (command === "git") {
+          return { status: null, stdout: "", stderr: "", error: "ENOENT" };
+        }
+        const path = args[args.length - 1];
+        writeFileSync(path, change(readFileSync(path, "utf-8")));
+        return { status: 0, stdout: "", stderr: "" };
+      },
+    });
+    try {
+      await envCommand(["edit"]);
+    } finally {
+      setCommandRunner(previous);
+    }
+  };
+
+  test("re-encrypts the edited file and keeps the old version", async () => {
+    writeFileSync(".env.key", KEY.toString("base64"));
+    writeFileSync(".env.enc", encryptEnv(CONTENT, KEY));
+
+    await editWith((content) => `${content}API_KEY=abc\n`);
+
+    const saved = readFileSync(".env.enc", "utf-8");
+    expect(saved).not.toContain("API_KEY");
+    expect(decryptEnv(saved, KEY)).toBe(`${CONTENT}API_KEY=abc\n`);
+    expect(listBackups(".env.enc")).toHaveLength(1);
+  });
+
+  test("creates the file and its key", async () => {
+    await editWith(() => "A=1\n");
+
+    expect(readEnvFile(".env.enc")).toBe("A=1\n");
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import {
+  hasSeveralEndpoints,
+  parseEndpointTargets,
+  resolveEndpoint,
+} from "../src/endpoints";
+
+const POOLED = "postgresql://app:pw@db-pooler.example.com/app?sslmode=require";
+const DIRECT = "postgresql://app:pw@db.example.com/app?sslmode=require";
+
+describe("parseEndpointTargets", () => {
+  test("expands a preset", () => {
+    expect(parseEndpointTargets("drizzle", [])).toEqual([
+      { variableName: "DATABASE_URL", endpoint: "pooled" },
+      { variableName: "DATABASE_URL_UNPOOLED", endpoint: "direct" },
+    ]);
+  });
+
+  test("--endpoint entries replace or extend the preset", () => {
+    expect(
+      parseEndpointTargets("prisma", [
+        "DIRECT_URL=public",
+        " SHADOW_DATABASE_URL = direct ",
+      ])
+    ).toEqual([
+      {
+        variableName: "DATABASE_URL",
+        endpoint: "pooled",
+        preferred: "prisma",
+        params: { pgbouncer: "true" },
+      },
+      { variableName: "DIRECT_URL", endpoint: "public" },
+      { variableName: "SHADOW_DATABASE_URL", endpoint: "direct" },
+    ]);
+  });
+
+  test("rejects unknown presets, endpoints and bad names", () => {
+    expect(() => parseEndpointTargets("typeorm", [])).toThrow(
+      'Unknown preset "typeorm". Expected one of: prisma, drizzle, pg'
+    );
+    expect(() => parseEndpointTargets(undefined, ["URL=replica"])).toThrow(
+      'Unknown endpoint "replica" for URL'
+    );
+    expect(() => parseEndpointTargets(undefined, ["URL"])).toThrow(
+      'Unknown endpoint "" for URL'
+    );
+    expect(() => parseEndpointTargets(undefined, ["1URL=direct"])).toThrow(
+      'Invalid variable name "1URL"'
+    );
+  });
+});
+
+describe("resolveEndpoint", () => {
+  const endpoints = { pooled: POOLED, direct: DIRECT };
+
+  test("adds the target's parameters to the provider's endpoint", () => {
+    const [pooled, direct] = parseEndpointTargets("prisma", []);
+
+    expect(resolveEndpoint(pooled, endpoints, DIRECT)).toEqual({
+      url: `${POOLED}&pgbouncer=true`,
+      fallback: false,
+    });
+    expect(resolveEndpoint(direct, endpoints, POOLED)).toEqual({
+      url: DIRECT,
+      fallback: false,
+    });
+  });
+
+  test("prefers the provider's own Prisma URL for the prisma preset", () => {
+    const [pooled] = parseEndpointTargets("prisma", []);
+    const prisma = `${POOLED}&pgbouncer=true&connect_timeout=15`;
+
+    expect(resolveEndpoint(pooled, { ...endpoints, prisma }, DIRECT)).toEqual({
+      url: prisma,
+      fallback: false,
+    });
+  });
+
+  test("falls back to the primary URL without parameters", () => {
+    const [pooled] = parseEndpointTargets("prisma", []);
+
+    expect(resolveEndpoint(pooled, {}, DIRECT)).toEqual({
+      url: DIRECT,
+      fallback: true,
+    });
+  });
+
+  test("hasSeveralEndpoints ignores identical URLs", () => {
+    expect(hasSeveralEndpoints(endpoints)).toBe(true);
+    expect(hasSeveralEndpoints({ public: DIRECT, direct: DIRECT })).toBe(false);
+    expect(hasSeveralEndpoints({})).toBe(false);
+  });
+});
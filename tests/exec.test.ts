@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { quoteCmdArg, windowsCommand } from "../src/utils/exec";
+
+describe("quoteCmdArg", () => {
+  test("quotes and caret-escapes shell metacharacters", () => {
+    expect(quoteCmdArg("a&b")).toBe('^^^"a^^^&b^^^"');
+  });
+
+  test("escapes embedded quotes and trailing backslashes", () => {
+    expect(quoteCmdArg('say "hi"\\')).toBe('^^^"say^^^ \\^^^"hi\\^^^"\\\\^^^"');
+  });
+});
+
+describe("windowsCommand", () => {
+  let bin: string;
+
+  beforeEach(() => {
+    bin = mkdtempSync(join(tmpdir(), "db-setup-exec-"));
+    writeFileSync(join(bin, "npx.cmd"), "");
+    writeFileSync(join(bin, "docker.exe"), "");
+  });
+
+  afterEach(() => {
+    rmSync(bin, { recursive: true, force: true });
+  });
+
+  const env = () => ({ PATH: bin, PATHEXT: ".exe;.cmd", ComSpec: "cmd.exe" });
+
+  test("runs a .cmd shim through cmd.exe with quoted arguments", () => {
+    const shim = join(bin, "npx.cmd").replace(/([ ()%!^"&|<>])/g, "^$1");
+
+    expect(windowsCommand("npx", ["neonctl", "a|b"], env())).toEqual({
+      file: "cmd.exe",
+      args: ["/d", "/s", "/c", `"${shim} ^^^"neonctl^^^" ^^^"a^^^|b^^^""`],
+      verbatim: true,
+    });
+  });
+
+  test("starts executables directly", () => {
+    expect(windowsCommand("docker", ["ps"], env())).toEqual({
+      file: join(bin, "docker.exe"),
+      args: ["ps"],
+      verbatim: false,
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  createRecordingRunner,
+  createReplayRunner,
+  getProvider,
+  runCommand,
+  setCommandRunner,
+  spawnRunner,
+  type CommandRunner,
+  type RecordedCommand,
+} from "../src/index";
+
+const docker = getProvider("local")!;
+
+const DATABASE = { resource: { containerName: "replayed-pg" } };
+
+const ok = (stdout = "") => ({ status: 0, stdout, stderr: "" });
+
+/** Stands in for the real docker CLI while recording */
+const fakeDocker: CommandRunner = {
+  run: (_command, args) =>
+    args[0] === "--version" ? ok("Docker version 27.0.0\n") : ok(),
+};
+
+afterEach(() => {
+  setCommandRunner(spawnRunner);
+});
+
+describe("createRecordingRunner", () => {
+  test("passes calls through and logs them with their results", () => {
+    const recorder = createRecordingRunner(fakeDocker);
+    setCommandRunner(recorder);
+
+    expect(runCommand("docker", ["--version"]).stdout).toBe(
+      "Docker version 27.0.0\n"
+    );
+    expect(recorder.calls).toEqual([
+      {
+        command: "docker",
+        args: ["--version"],
+        cwd: undefined,
+        result: ok("Docker version 27.0.0\n"),
+      },
+    ]);
+  });
+});
+
+describe("createReplayRunner", () => {
+  const record = async (): Promise<RecordedCommand[]> => {
+    const recorder = createRecordingRunner(fakeDocker);
+    setCommandRunner(recorder);
+    await docker.checkPrerequisites({});
+    await docker.teardown(DATABASE);
+    return recorder.calls;
+  };
+
+  test("plays a recorded provider session back", async () => {
+    const recordings = await record();
+    const replay = createReplayRunner(recordings);
+    setCommandRunner(replay);
+
+    expect(await docker.checkPrerequisites({})).toBe(true);
+    await docker.teardown(DATABASE);
+
+    expect(replay.remaining()).toBe(0);
+    expect(replay.calls.map((call) => call.args.join(" "))).toEqual([
+      "--version",
+      "rm -f replayed-pg",
+    ]);
+  });
+
+  test("fails on a command that was not recorded next", async () => {
+    setCommandRunner(createReplayRunner(await record()));
+
+    expect(() => runCommand("docker", ["ps"])).toThrow(
+      "Unexpected command #1: docker ps\nExpected: docker --version"
+    );
+  });
+
+  test("fails once the recordings run out", () => {
+    setCommandRunner(createReplayRunner([]));
+
+    expect(() => runCommand("docker", ["--version"])).toThrow(
+      "Unexpected command (no recordings left): docker --version"
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { spawnSync } from "child_process";
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ensureGitSafe, findGitRoot, getGitStatus } from "../src/git-safety";
+import { TrackedEnvFileError } from "../src/errors";
+import { setAssumeYes } from "../src/utils/prompts";
+
+let dir: string;
+const cwd = process.cwd();
+
+const git = (...args: string[]) =>
+  spawnSync("git", ["-c", "user.name=t", "-c", "user.email=t@t", ...args], {
+    cwd: dir,
+  });
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "db-setup-git-"));
+  git("init", "-q");
+  setAssumeYes(true);
+});
+
+afterEach(() => {
+  process.chdir(cwd);
+  setAssumeYes(false);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("getGitStatus", () => {
+  test("tells tracked, ignored and unignored files apart", () => {
+    writeFileSync(join(dir, ".gitignore"), ".env.local\n");
+    writeFileSync(join(dir, ".env"), "A=1\n");
+    git("add", ".env");
+
+    const root = findGitRoot(dir)!;
+    expect(
+      getGitStatus(root, [
+        join(root, ".env"),
+        join(root, ".env.local"),
+        join(root, ".env.test"),
+      ])
+    ).toEqual([
+      { path: ".env", tracked: true, ignored: false },
+      { path: ".env.local", tracked: false, ignored: true },
+      { path: ".env.test", tracked: false, ignored: false },
+    ]);
+  });
+
+  test("treats a directory as tracked when a file in it is", () => {
+    mkdirSync(join(dir, ".db-setup/backups"), { recursive: true });
+    writeFileSync(join(dir, ".db-setup/backups/x"), "A=1\n");
+    git("add", ".db-setup");
+
+    const root = findGitRoot(dir)!;
+    expect(getGitStatus(root, [`${join(root, ".db-setup")}/`])).toEqual([
+      { path: ".db-setup/", tracked: true, ignored: false },
+    ]);
+  });
+
+  test("finds no repository outside git", () => {
+    const outside = mkdtempSync(join(tmpdir(), "db-setup-nogit-"));
+    expect(findGitRoot(outside)).toBeUndefined();
+    rmSync(outside, { recursive: true, force: true });
+  });
+});
+
+describe("ensureGitSafe", () => {
+  test("adds the env file and the backup directory to .gitignore", async () => {
+    process.chdir(dir);
+    writeFileSync(join(dir, ".gitignore"), "node_modules");
+    writeFileSync(join(dir, ".env"), "A=1\n");
+
+    await ensureGitSafe(join(dir, ".env"));
+
+    expect(readFileSync(join(dir, ".gitignore"), "utf-8")).toBe(
+      "node_modules\n\n# Env files with database credentials\n.env\n.db-setup/\n"
+    );
+  });
+
+  test("skips the backup directory when no backups are kept", async () => {
+    process.chdir(dir);
+    writeFileSync(join(dir, ".env"), "A=1\n");
+
+    await ensureGitSafe(join(dir, ".env"), false, 0);
+
+    expect(readFileSync(join(dir, ".gitignore"), "utf-8")).toBe(
+      "# Env files with database credentials\n.env\n"
+    );
+  });
+
+  test("leaves an ignored file alone", async () => {
+    writeFileSync(join(dir, ".gitignore"), ".env*\n");
+
+    await ensureGitSafe(join(dir, ".env"));
+
+    expect(readFileSync(join(dir, ".gitignore"), "utf-8")).toBe(".env*\n");
+  });
+
+  test("refuses a tracked file unless forced", async () => {
+    writeFileSync(join(dir, ".gitignore"), ".env\n");
+    writeFileSync(join(dir, ".env"), "A=1\n");
+    git("add", "-f", ".env");
+
+    await expect(ensureGitSafe(join(dir, ".env"))).rejects.toBeInstanceOf(
+      TrackedEnvFileError
+    );
+    await expect(
+      ensureGitSafe(join(dir, ".env"), true)
+    ).resolves.toBeUndefined();
+  });
+});
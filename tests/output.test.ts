@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  enableRedaction,
+  redact,
+  registerSecret,
+  setShowSecrets,
+} from "../src/utils/output";
+
+describe("redact", () => {
+  afterEach(() => {
+    setShowSecrets(false);
+  });
+
+  test("hides registered secrets, also percent-encoded", () => {
+    registerSecret("tok_3x@mple");
+    expect(redact("avn user login tok_3x@mple")).toBe("avn user login ***");
+    expect(redact("password=tok_3x%40mple")).toBe("password=***");
+  });
+
+  test("ignores values too short to be specific", () => {
+    registerSecret("abc");
+    expect(redact("abc def")).toBe("abc def");
+  });
+
+  test("masks connection string passwords without registering them", () => {
+    expect(redact("URL: postgresql://u:hunter2@h/db")).toBe(
+      "URL: postgresql://u:***@h/db"
+    );
+  });
+
+  test("prints everything with --show-secrets", () => {
+    registerSecret("tok_3x@mple");
+    setShowSecrets(true);
+    expect(redact("tok_3x@mple postgresql://u:hunter2@h/db")).toBe(
+      "tok_3x@mple postgresql://u:hunter2@h/db"
+    );
+  });
+
+  test("enableRedaction filters console output until undone", () => {
+    const lines: string[] = [];
+    const original = console.log;
+    console.log = (...args: unknown[]) => lines.push(args.join(" "));
+
+    try {
+      registerSecret("s3cr3t-value");
+      const disable = enableRedaction();
+      console.log("token:", "s3cr3t-value");
+      disable();
+      console.log("token:", "s3cr3t-value");
+    } finally {
+      console.log = original;
+    }
+
+    expect(lines).toEqual(["token: ***", "token: s3cr3t-value"]);
+  });
+});
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  discoverPluginPackages,
+  loadProviderPlugins,
+} from "../src/providers/plugins";
+import { AuthenticationError } from "../src/errors";
+import { getProvider, unregisterProvider } from "../src/providers/registry";
+import { PROVIDER_API_VERSION } from "../src/providers/types";
+import { getWarnings } from "../src/utils/output";
+
+const ERRORS_MODULE = join(import.meta.dir, "../src/errors.ts");
+
+let root: string;
+
+/**
+ * A db-setup-provider-* package in the temp project's node_modules whose
+ * provider throws from provision(), and from authenticate() what
+ * `authenticate` throws
+ */
+const writePlugin = (
+  name: string,
+  { apiVersion = PROVIDER_API_VERSION, authenticate = "return true;" } = {}
+): void => {
+  const dir = join(root, "node_modules", name);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(
+    join(dir, "package.json"),
+    JSON.stringify({ name, type: "module", main: "index.js" })
+  );
+  writeFileSync(
+    join(dir, "index.js"),
+    `import * as errors from ${JSON.stringify(ERRORS_MODULE)};
+
+const step = async () => true;
+export default {
+  apiVersion: ${apiVersion},
+  provider: {
+    id: "fixture",
+    displayName: "Fixture",
+    title: "Fixture PostgreSQL",
+    checkPrerequisites: step,
+    authenticate: async () => {
+      ${authenticate}
+    },
+    provision: async () => {
+      throw new Error("quota exceeded");
+    },
+    getConnectionInfo: async () => ({ databaseUrl: "postgresql://localhost/app" }),
+    teardown: async () => {},
+    provisionEnvironment: async (database, environment) => ({
+      resource: { ...database.resource, environment },
+      databaseUrl: \`postgresql://localhost/app_\${environment}\`,
+    }),
+  },
+};
+`
+  );
+};
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "db-setup-plugins-"));
+});
+
+afterEach(() => {
+  unregisterProvider("fixture");
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("discoverPluginPackages", () => {
+  test("finds plain and scoped db-setup-provider-* packages", () => {
+    writePlugin("db-setup-provider-fixture");
+    writePlugin("@acme/db-setup-provider-cloud");
+    mkdirSync(join(root, "node_modules", "left-pad"));
+
+    expect(discoverPluginPackages(root)).toEqual([
+      "@acme/db-setup-provider-cloud",
+      "db-setup-provider-fixture",
+    ]);
+  });
+
+  test("returns nothing without node_modules", () => {
+    expect(discoverPluginPackages(root)).toEqual([]);
+  });
+});
+
+describe("loadProviderPlugins", () => {
+  test("registers the providers of discovered packages", async () => {
+    writePlugin("db-setup-provider-fixture");
+
+    expect(await loadProviderPlugins([], root)).toEqual(["fixture"]);
+    expect(getProvider("fixture")?.title).toBe("Fixture PostgreSQL");
+  });
+
+  test("skips a plugin written for another provider API version", async () => {
+    writePlugin("db-setup-provider-fixture", {
+      apiVersion: PROVIDER_API_VERSION + 1,
+    });
+
+    expect(await loadProviderPlugins([], root)).toEqual([]);
+    expect(getProvider("fixture")).toBeUndefined();
+    expect(getWarnings()).toContain(
+      `Skipping provider plugin "db-setup-provider-fixture": ` +
+        `Plugin "db-setup-provider-fixture" targets provider API version ${PROVIDER_API_VERSION + 1}, ` +
+        `but this db-setup supports version ${PROVIDER_API_VERSION}`
+    );
+  });
+
+  test("skips a plugin that fails to load and keeps the others", async () => {
+    writePlugin("db-setup-provider-fixture");
+    const broken = join(root, "node_modules", "db-setup-provider-broken");
+    mkdirSync(broken);
+    writeFileSync(
+      join(broken, "package.json"),
+      JSON.stringify({ name: "db-setup-provider-broken", main: "index.js" })
+    );
+    writeFileSync(join(broken, "index.js"), `throw new Error("boom");\n`);
+
+    expect(await loadProviderPlugins([], root)).toEqual(["fixture"]);
+    expect(
+      getWarnings().some((warning) =>
+        warning.startsWith(
+          `Skipping provider plugin "db-setup-provider-broken": `
+        )
+      )
+    ).toBe(true);
+  });
+
+  test("names the plugin and step when its code throws", async () => {
+    writePlugin("db-setup-provider-fixture");
+    await loadProviderPlugins([], root);
+    const provider = getProvider("fixture")!;
+
+    await expect(provider.provision({})).rejects.toThrow(
+      `Provider plugin "db-setup-provider-fixture" (fixture) failed in provision: quota exceeded`
+    );
+  });
+
+  test("keeps the class, exit code and hint of a SetupError", async () => {
+    writePlugin("db-setup-provider-fixture", {
+      authenticate: `throw new errors.AuthenticationError("token expired", { hint: "Log in again" });`,
+    });
+    await loadProviderPlugins([], root);
+
+    const error = await getProvider("fixture")!
+      .authenticate({})
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toMatchObject({
+      message: `Provider plugin "db-setup-provider-fixture" (fixture) failed in authenticate: token expired`,
+      exitCode: 4,
+      hint: "Log in again",
+    });
+  });
+
+  test("lets cancellations through unchanged", async () => {
+    writePlugin("db-setup-provider-fixture", {
+      authenticate: `const error = new Error("User force closed the prompt"); error.name = "ExitPromptError"; throw error;`,
+    });
+    await loadProviderPlugins([], root);
+
+    const error = await getProvider("fixture")!
+      .authenticate({})
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({
+      name: "ExitPromptError",
+      message: "User force closed the prompt",
+    });
+  });
+
+  test("keeps provisionEnvironment so --environment works with plugins", async () => {
+    writePlugin("db-setup-provider-fixture");
+    await loadProviderPlugins([], root);
+
+    const database = await getProvider("fixture")!.provisionEnvironment?.(
+      { resource: { clusterId: "c1" } },
+      "preview",
+      {}
+    );
+
+    expect(database).toEqual({
+      resource: { clusterId: "c1", environment: "preview" },
+      databaseUrl: "postgresql://localhost/app_preview",
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { confirm, input, setAssumeYes } from "../src/utils/prompts";
+
+const validate = (value: string) =>
+  /^[a-z0-9-]+$/.test(value) || "Use lowercase letters, numbers and hyphens";
+
+afterEach(() => {
+  setAssumeYes(false);
+});
+
+describe("input", () => {
+  test("--yes takes a valid default", async () => {
+    setAssumeYes(true);
+
+    expect(
+      await input(
+        { message: "Name:", default: "my-db", validate },
+        { flag: "--name" }
+      )
+    ).toBe("my-db");
+  });
+
+  test("--yes checks the default like a typed answer", async () => {
+    setAssumeYes(true);
+
+    await expect(
+      input(
+        { message: "Name:", default: "My DB", validate },
+        { flag: "--name" }
+      )
+    ).rejects.toThrow(
+      "Invalid value for --name: Use lowercase letters, numbers and hyphens"
+    );
+  });
+
+  test("a flag value is validated", async () => {
+    await expect(
+      input({ message: "Name:", validate }, { value: "x y", flag: "--name" })
+    ).rejects.toThrow("Invalid value for --name");
+  });
+});
+
+describe("confirm", () => {
+  test("--yes takes the question's default, yes when it has none", async () => {
+    setAssumeYes(true);
+
+    expect(await confirm({ message: "Overwrite?", default: false })).toBe(
+      false
+    );
+    expect(await confirm({ message: "Continue?" })).toBe(true);
+  });
+
+  test("a flag answers it even under --yes", async () => {
+    setAssumeYes(true);
+
+    expect(
+      await confirm(
+        { message: "Overwrite?", default: false },
+        { value: true, flag: "--overwrite" }
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { discoverWorkspaces, workspaceEnvPath } from "../src/workspaces";
+
+let dirs: string[] = [];
+
+const project = (files: Record<string, string>): string => {
+  const dir = mkdtempSync(join(tmpdir(), "db-setup-workspaces-"));
+  dirs.push(dir);
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(dir, name)), { recursive: true });
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+};
+
+const pkg = (name: string): string => JSON.stringify({ name });
+
+afterEach(() => {
+  for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+  dirs = [];
+});
+
+describe("discoverWorkspaces", () => {
+  test("finds nothing outside a monorepo", () => {
+    expect(discoverWorkspaces(project({ "package.json": pkg("app") }))).toEqual(
+      []
+    );
+  });
+
+  test("reads package.json workspaces with their env files", () => {
+    const cwd = project({
+      "package.json": JSON.stringify({ workspaces: ["apps/*"] }),
+      "apps/api/package.json": pkg("@acme/api"),
+      "apps/api/.env": "PORT=3000\n",
+      "apps/api/.env.example": "PORT=\n",
+      "apps/api/.env.backup": "PORT=1\n",
+      "apps/web/package.json": pkg("@acme/web"),
+      "apps/web/.env.local": "",
+      "apps/docs/README.md": "not a package",
+    });
+
+    expect(discoverWorkspaces(cwd)).toEqual([
+      { name: "@acme/api", dir: "apps/api", envFiles: [".env"] },
+      { name: "@acme/web", dir: "apps/web", envFiles: [".env.local"] },
+    ]);
+  });
+
+  test("reads yarn's { packages } form and ! exclusions", () => {
+    const cwd = project({
+      "package.json": JSON.stringify({
+        workspaces: { packages: ["packages/**", "!packages/internal"] },
+      }),
+      "packages/ui/package.json": pkg("ui"),
+      "packages/internal/package.json": pkg("internal"),
+      "packages/tools/cli/package.json": pkg("cli"),
+    });
+
+    expect(discoverWorkspaces(cwd).map((ws) => ws.dir)).toEqual([
+      "packages/ui",
+      "packages/tools/cli",
+    ]);
+  });
+
+  test("reads pnpm-workspace.yaml", () => {
+    const cwd = project({
+      "package.json": pkg("root"),
+      "pnpm-workspace.yaml": `packages:
+  - "services/*" # backends
+  - 'tools/migrate'
+catalog:
+  zod: ^3.0.0
+`,
+      "services/billing/package.json": pkg("billing"),
+      "tools/migrate/package.json": pkg("migrate"),
+      "tools/other/package.json": pkg("other"),
+    });
+
+    expect(discoverWorkspaces(cwd).map((ws) => ws.name)).toEqual([
+      "billing",
+      "migrate",
+    ]);
+  });
+
+  test("uses nx's workspaceLayout and project.json", () => {
+    const cwd = project({
+      "nx.json": JSON.stringify({ workspaceLayout: { appsDir: "projects" } }),
+      "projects/api/project.json": JSON.stringify({ name: "api" }),
+      "libs/db/package.json": "{}",
+    });
+
+    expect(discoverWorkspaces(cwd)).toEqual([
+      { name: "api", dir: "projects/api", envFiles: [] },
+      { name: "libs/db", dir: "libs/db", envFiles: [] },
+    ]);
+  });
+
+  test("falls back to apps/* and packages/* for turbo", () => {
+    const cwd = project({
+      "turbo.json": "{}",
+      "apps/web/package.json": pkg("web"),
+      "packages/db/package.json": pkg("db"),
+    });
+
+    expect(discoverWorkspaces(cwd).map((ws) => ws.dir)).toEqual([
+      "apps/web",
+      "packages/db",
+    ]);
+  });
+});
+
+describe("workspaceEnvPath", () => {
+  test("prefers what the package's framework loads", () => {
+    const cwd = project({
+      "apps/web/next.config.js": "module.exports = {}",
+    });
+
+    expect(
+      workspaceEnvPath(
+        { name: "web", dir: "apps/web", envFiles: [".env"] },
+        cwd
+      )
+    ).toBe("apps/web/.env.local");
+  });
+
+  test("then an existing env file, then .env", () => {
+    const cwd = project({ "apps/api/package.json": pkg("api") });
+
+    expect(
+      workspaceEnvPath(
+        { name: "api", dir: "apps/api", envFiles: [".env.local"] },
+        cwd
+      )
+    ).toBe("apps/api/.env.local");
+    expect(
+      workspaceEnvPath({ name: "api", dir: "apps/api", envFiles: [] }, cwd)
+    ).toBe("apps/api/.env");
+  });
+});